@@ -0,0 +1,238 @@
+/**
+ * Weblisk Access Filter Module
+ * Per-route client filtering from `advanced.security`: IPv4/IPv6 allow and
+ * deny lists (single addresses or CIDR ranges) and blocked user agents
+ *
+ * Deny lists win over allow lists; with an allow list set, every address
+ * outside it (including an unknown client address) is refused. The route
+ * type presets' `ipWhitelist` values are documentation defaults and are not
+ * enforced; set the ranges on the route or its group to turn them on.
+ */
+
+import type { SecurityConfig } from "./route-types.ts";
+import { WebliskError } from "./types.ts";
+
+export interface IPAddress {
+  version: 4 | 6;
+  value: bigint;
+}
+
+export interface IPRange extends IPAddress {
+  prefix: number; // Leading bits that must match
+}
+
+/**
+ * Rules read from a route's `advanced.security`
+ */
+export type AccessRules = Pick<
+  SecurityConfig,
+  "ipWhitelist" | "ipBlacklist" | "userAgentBlocking"
+>;
+
+export type AccessDenialCode =
+  | "IP_BLOCKED"
+  | "IP_NOT_ALLOWED"
+  | "USER_AGENT_BLOCKED";
+
+export interface AccessDenial {
+  code: AccessDenialCode;
+  rule?: string; // The deny list entry or user agent pattern that matched
+}
+
+function parseIPv4(address: string): bigint | null {
+  const parts = address.split(".");
+  if (parts.length !== 4) return null;
+
+  let value = 0n;
+  for (const part of parts) {
+    if (!/^\d{1,3}$/.test(part) || Number(part) > 255) return null;
+    value = (value << 8n) | BigInt(Number(part));
+  }
+  return value;
+}
+
+function parseIPv6(address: string): bigint | null {
+  const halves = address.split("::");
+  if (halves.length > 2) return null;
+
+  const toGroups = (half: string): number[] | null => {
+    if (half === "") return [];
+    const groups: number[] = [];
+    const parts = half.split(":");
+    for (const [index, part] of parts.entries()) {
+      // An embedded IPv4 address fills the last two groups
+      if (index === parts.length - 1 && part.includes(".")) {
+        const ipv4 = parseIPv4(part);
+        if (ipv4 === null) return null;
+        groups.push(Number(ipv4 >> 16n), Number(ipv4 & 0xffffn));
+      } else if (/^[0-9a-f]{1,4}$/i.test(part)) {
+        groups.push(parseInt(part, 16));
+      } else {
+        return null;
+      }
+    }
+    return groups;
+  };
+
+  const head = toGroups(halves[0]);
+  const tail = halves.length === 2 ? toGroups(halves[1]) : [];
+  if (!head || !tail) return null;
+
+  const missing = 8 - head.length - tail.length;
+  if (halves.length === 2 ? missing < 1 : missing !== 0) return null;
+
+  return [...head, ...new Array(missing).fill(0), ...tail]
+    .reduce((value, group) => (value << 16n) | BigInt(group), 0n);
+}
+
+/**
+ * Parse an IPv4 or IPv6 address (brackets and zone ids are ignored);
+ * IPv4-mapped IPv6 addresses (::ffff:10.0.0.1) are read as IPv4
+ */
+export function parseIP(address: string): IPAddress | null {
+  const trimmed = address.trim().replace(/^\[(.*)\]$/, "$1")
+    .replace(/%.*$/, "");
+
+  const ipv4 = parseIPv4(trimmed);
+  if (ipv4 !== null) return { version: 4, value: ipv4 };
+
+  const ipv6 = parseIPv6(trimmed);
+  if (ipv6 === null) return null;
+  if (ipv6 >> 32n === 0xffffn) {
+    return { version: 4, value: ipv6 & 0xffffffffn };
+  }
+  return { version: 6, value: ipv6 };
+}
+
+/**
+ * Parse an address or CIDR range ("10.0.0.0/8", "2001:db8::/32")
+ */
+export function parseIPRange(range: string): IPRange | null {
+  const [address, prefix, ...rest] = range.trim().split("/");
+  if (rest.length > 0) return null;
+
+  const ip = parseIP(address);
+  if (!ip) return null;
+
+  const bits = ip.version === 4 ? 32 : 128;
+  if (prefix === undefined) return { ...ip, prefix: bits };
+  if (!/^\d{1,3}$/.test(prefix)) return null;
+
+  // An IPv4-mapped range (::ffff:10.0.0.0/104) counts its prefix over the
+  // whole IPv6 address
+  const mapped = ip.version === 4 && parseIPv4(address.trim()) === null;
+  const length = Number(prefix) - (mapped ? 96 : 0);
+  if (length < 0 || length > bits) return null;
+  return { ...ip, prefix: length };
+}
+
+/**
+ * Check whether an address falls inside a range
+ */
+export function matchesIPRange(ip: IPAddress, range: IPRange): boolean {
+  if (ip.version !== range.version) return false;
+  const shift = BigInt((ip.version === 4 ? 32 : 128) - range.prefix);
+  return ip.value >> shift === range.value >> shift;
+}
+
+/**
+ * Compile a user agent pattern: a regular expression source matched
+ * case-insensitively, or a `/source/flags` literal
+ */
+export function compileUserAgentPattern(pattern: string | RegExp): RegExp {
+  if (pattern instanceof RegExp) return pattern;
+
+  const literal = pattern.match(/^\/(.+)\/([a-z]*)$/);
+  try {
+    return literal
+      ? new RegExp(literal[1], literal[2])
+      : new RegExp(pattern, "i");
+  } catch (error) {
+    throw new WebliskError(
+      `Invalid user agent pattern: ${pattern}`,
+      "INVALID_ACCESS_RULE",
+      {
+        pattern,
+        error: error instanceof Error ? error.message : String(error),
+      },
+    );
+  }
+}
+
+/**
+ * A compiled set of access rules
+ */
+export class AccessFilter {
+  private allowed: IPRange[] | null;
+  private blocked: { rule: string; range: IPRange }[];
+  private userAgents: { rule: string; pattern: RegExp }[];
+
+  /**
+   * Throws a WebliskError for malformed ranges or patterns
+   */
+  constructor(rules: AccessRules) {
+    const compile = (range: string) => {
+      const parsed = parseIPRange(range);
+      if (!parsed) {
+        throw new WebliskError(
+          `Invalid IP address or CIDR range: ${range}`,
+          "INVALID_ACCESS_RULE",
+          { range },
+        );
+      }
+      return parsed;
+    };
+
+    this.allowed = rules.ipWhitelist ? rules.ipWhitelist.map(compile) : null;
+    this.blocked = (rules.ipBlacklist || []).map((rule) => ({
+      rule,
+      range: compile(rule),
+    }));
+    this.userAgents = (rules.userAgentBlocking || []).map((rule) => ({
+      rule: String(rule),
+      pattern: compileUserAgentPattern(rule),
+    }));
+  }
+
+  /**
+   * Filter for a route's security config, or null when it sets no rules
+   */
+  static fromRules(rules?: AccessRules): AccessFilter | null {
+    if (
+      !rules?.ipWhitelist && !rules?.ipBlacklist?.length &&
+      !rules?.userAgentBlocking?.length
+    ) {
+      return null;
+    }
+    return new AccessFilter(rules);
+  }
+
+  /**
+   * Check a client; returns why it is refused, or null when allowed
+   */
+  check(clientIP: string, userAgent: string | null): AccessDenial | null {
+    const ip = parseIP(clientIP);
+
+    if (ip) {
+      const blocked = this.blocked.find(({ range }) =>
+        matchesIPRange(ip, range)
+      );
+      if (blocked) return { code: "IP_BLOCKED", rule: blocked.rule };
+    }
+
+    if (
+      this.allowed &&
+      !(ip && this.allowed.some((range) => matchesIPRange(ip, range)))
+    ) {
+      return { code: "IP_NOT_ALLOWED" };
+    }
+
+    const agent = this.userAgents.find(({ pattern }) => {
+      pattern.lastIndex = 0; // Global and sticky patterns keep state
+      return pattern.test(userAgent || "");
+    });
+    if (agent) return { code: "USER_AGENT_BLOCKED", rule: agent.rule };
+
+    return null;
+  }
+}
@@ -0,0 +1,403 @@
+/**
+ * Weblisk API Keys Module
+ * API key authentication: hashed key storage behind a pluggable store,
+ * scopes, per-key route restrictions and rate limits, last-used tracking
+ * and rotation with an overlap period
+ *
+ * Routes opt in with `advanced.security.apiKeyValidation` (plus
+ * `apiKeyScopes` for the scopes a key needs). Keys are read from the
+ * configured header, `Authorization: ApiKey <key>` (or `Bearer <key>` for
+ * keys with the configured prefix) and the query parameter. Only the
+ * SHA-256 hash of a key is stored; the plain key is returned once, when
+ * it is created.
+ */
+
+import { dirname } from "@std/path";
+import type { RateLimitPolicy } from "./rate-limit.ts";
+import { WebliskError } from "./types.ts";
+
+export interface ApiKeyConfig {
+  header: string; // Request header carrying the key
+  queryParam: string; // Query parameter carrying the key ("" to disable)
+  prefix: string; // Generated keys look like <prefix>_<secret>
+  rotationOverlap: number; // Seconds a rotated key keeps working
+  storePath?: string; // JSON file holding the keys (default: in memory)
+}
+
+export interface ApiKeyRecord {
+  id: string;
+  name: string;
+  hash: string; // SHA-256 of the key, hex
+  hint: string; // Leading characters of the key, for display
+  scopes: string[]; // "*" grants every scope, "orders:*" every orders scope
+  routes?: string[]; // Route patterns the key may call ("/reports/*" for a subtree)
+  rateLimit?: Omit<RateLimitPolicy, "key" | "keyGenerator" | "name">;
+  metadata?: Record<string, unknown>;
+  createdAt: number; // Epoch milliseconds
+  expiresAt?: number;
+  revokedAt?: number;
+  lastUsedAt?: number;
+  rotatedTo?: string; // Id of the key that replaced this one
+}
+
+/**
+ * What handlers and audit logs see of the key a request used
+ * (`context.apiKey`)
+ */
+export interface ApiKeyIdentity {
+  id: string;
+  name: string;
+  scopes: string[];
+  metadata?: Record<string, unknown>;
+}
+
+export interface ApiKeyOptions {
+  name?: string;
+  scopes?: string[];
+  routes?: string[];
+  rateLimit?: ApiKeyRecord["rateLimit"];
+  metadata?: Record<string, unknown>;
+  expiresAt?: Date | number;
+}
+
+/**
+ * Where key records live; implement it over a database to share keys
+ * between instances
+ */
+export interface ApiKeyStore {
+  get(id: string): Promise<ApiKeyRecord | undefined>;
+  findByHash(hash: string): Promise<ApiKeyRecord | undefined>;
+  save(record: ApiKeyRecord): Promise<void>;
+  /** Record a key's last use without rewriting the rest of its record */
+  touch(id: string, lastUsedAt: number): Promise<void>;
+  delete(id: string): Promise<boolean>;
+  list(): Promise<ApiKeyRecord[]>;
+}
+
+/**
+ * In-process store (the default)
+ */
+export class MemoryApiKeyStore implements ApiKeyStore {
+  protected records: Map<string, ApiKeyRecord> = new Map();
+
+  get(id: string): Promise<ApiKeyRecord | undefined> {
+    const record = this.records.get(id);
+    return Promise.resolve(record && { ...record });
+  }
+
+  findByHash(hash: string): Promise<ApiKeyRecord | undefined> {
+    for (const record of this.records.values()) {
+      if (record.hash === hash) return Promise.resolve({ ...record });
+    }
+    return Promise.resolve(undefined);
+  }
+
+  save(record: ApiKeyRecord): Promise<void> {
+    this.records.set(record.id, { ...record });
+    return Promise.resolve();
+  }
+
+  touch(id: string, lastUsedAt: number): Promise<void> {
+    const record = this.records.get(id);
+    if (record) record.lastUsedAt = lastUsedAt;
+    return Promise.resolve();
+  }
+
+  delete(id: string): Promise<boolean> {
+    return Promise.resolve(this.records.delete(id));
+  }
+
+  list(): Promise<ApiKeyRecord[]> {
+    return Promise.resolve(
+      Array.from(this.records.values(), (record) => ({ ...record })),
+    );
+  }
+}
+
+/**
+ * Store kept in a JSON file, loaded on first use and rewritten after each
+ * change (needs --allow-read and --allow-write for the file)
+ */
+export class FileApiKeyStore extends MemoryApiKeyStore {
+  private loaded?: Promise<void>;
+  private writing: Promise<void> = Promise.resolve();
+
+  constructor(private path: string) {
+    super();
+  }
+
+  override async get(id: string): Promise<ApiKeyRecord | undefined> {
+    await this.load();
+    return super.get(id);
+  }
+
+  override async findByHash(hash: string): Promise<ApiKeyRecord | undefined> {
+    await this.load();
+    return super.findByHash(hash);
+  }
+
+  override async save(record: ApiKeyRecord): Promise<void> {
+    await this.load();
+    await super.save(record);
+    await this.persist();
+  }
+
+  override async touch(id: string, lastUsedAt: number): Promise<void> {
+    await this.load();
+    if (!this.records.has(id)) return;
+    await super.touch(id, lastUsedAt);
+    await this.persist();
+  }
+
+  override async delete(id: string): Promise<boolean> {
+    await this.load();
+    const deleted = await super.delete(id);
+    if (deleted) await this.persist();
+    return deleted;
+  }
+
+  override async list(): Promise<ApiKeyRecord[]> {
+    await this.load();
+    return super.list();
+  }
+
+  private load(): Promise<void> {
+    return this.loaded ??= (async () => {
+      try {
+        const records = JSON.parse(
+          await Deno.readTextFile(this.path),
+        ) as ApiKeyRecord[];
+        for (const record of records) this.records.set(record.id, record);
+      } catch (error) {
+        if (!(error instanceof Deno.errors.NotFound)) {
+          this.loaded = undefined;
+          throw new WebliskError(
+            `Failed to read API key store ${this.path}`,
+            "API_KEY_STORE_ERROR",
+            {
+              path: this.path,
+              error: error instanceof Error ? error.message : String(error),
+            },
+          );
+        }
+      }
+    })();
+  }
+
+  /**
+   * Write to a temporary file and rename it, so readers never see a
+   * partial file; writes run one at a time so an older snapshot never
+   * lands after a newer one
+   */
+  private persist(): Promise<void> {
+    const write = async () => {
+      const temporary = `${this.path}.tmp`;
+      await Deno.mkdir(dirname(this.path), { recursive: true });
+      await Deno.writeTextFile(
+        temporary,
+        JSON.stringify(Array.from(this.records.values()), null, 2),
+        { mode: 0o600 },
+      );
+      await Deno.rename(temporary, this.path);
+    };
+    this.writing = this.writing.then(write, write);
+    return this.writing;
+  }
+}
+
+/**
+ * Last-used times are written back at most this often per key
+ */
+const LAST_USED_RESOLUTION = 60 * 1000;
+
+function randomToken(bytes: number): string {
+  const buffer = crypto.getRandomValues(new Uint8Array(bytes));
+  return btoa(String.fromCharCode(...buffer))
+    .replace(/\+/g, "-").replace(/\//g, "_").replace(/=+$/, "");
+}
+
+/**
+ * Issues, verifies, rotates and revokes API keys
+ */
+export class ApiKeyManager {
+  constructor(
+    public store: ApiKeyStore = new MemoryApiKeyStore(),
+    private config: Pick<ApiKeyConfig, "prefix" | "rotationOverlap"> = {
+      prefix: "wlk",
+      rotationOverlap: 24 * 60 * 60,
+    },
+  ) {}
+
+  /**
+   * SHA-256 hash of a key, hex encoded
+   */
+  static async hash(key: string): Promise<string> {
+    const digest = await crypto.subtle.digest(
+      "SHA-256",
+      new TextEncoder().encode(key),
+    );
+    return Array.from(
+      new Uint8Array(digest),
+      (byte) => byte.toString(16).padStart(2, "0"),
+    ).join("");
+  }
+
+  /**
+   * Create a key; the plain `key` is not stored and cannot be shown again
+   */
+  async create(
+    options: ApiKeyOptions = {},
+  ): Promise<{ key: string; record: ApiKeyRecord }> {
+    const key = `${this.config.prefix}_${randomToken(32)}`;
+    const record: ApiKeyRecord = {
+      id: crypto.randomUUID(),
+      name: options.name ?? "",
+      hash: await ApiKeyManager.hash(key),
+      hint: key.slice(0, this.config.prefix.length + 5),
+      scopes: options.scopes ?? [],
+      ...(options.routes ? { routes: options.routes } : {}),
+      ...(options.rateLimit ? { rateLimit: options.rateLimit } : {}),
+      ...(options.metadata ? { metadata: options.metadata } : {}),
+      createdAt: Date.now(),
+      ...(options.expiresAt !== undefined
+        ? { expiresAt: new Date(options.expiresAt).getTime() }
+        : {}),
+    };
+
+    await this.store.save(record);
+    return { key, record };
+  }
+
+  /**
+   * Look up an active key (null for unknown, revoked or expired keys),
+   * recording when it was last used
+   */
+  async verify(key: string): Promise<ApiKeyRecord | null> {
+    const record = await this.store.findByHash(await ApiKeyManager.hash(key));
+    const now = Date.now();
+    if (!record || !ApiKeyManager.isActive(record, now)) return null;
+
+    if (!record.lastUsedAt || now - record.lastUsedAt >= LAST_USED_RESOLUTION) {
+      record.lastUsedAt = now;
+      await this.store.touch(record.id, now);
+    }
+    return record;
+  }
+
+  /**
+   * Replace a key with a new one carrying the same name, scopes, routes
+   * and limits; the old key keeps working for `overlapSeconds`
+   */
+  async rotate(
+    id: string,
+    overlapSeconds = this.config.rotationOverlap,
+  ): Promise<{ key: string; record: ApiKeyRecord }> {
+    const current = await this.store.get(id);
+    if (!current || !ApiKeyManager.isActive(current, Date.now())) {
+      throw new WebliskError(
+        `No active API key with id ${id}`,
+        "API_KEY_NOT_FOUND",
+        { id },
+      );
+    }
+
+    const replacement = await this.create({
+      name: current.name,
+      scopes: current.scopes,
+      routes: current.routes,
+      rateLimit: current.rateLimit,
+      metadata: current.metadata,
+      expiresAt: current.expiresAt,
+    });
+
+    const overlapEnds = Date.now() + overlapSeconds * 1000;
+    current.expiresAt = Math.min(current.expiresAt ?? Infinity, overlapEnds);
+    current.rotatedTo = replacement.record.id;
+    await this.store.save(current);
+
+    return replacement;
+  }
+
+  /**
+   * Revoke a key immediately (false when it does not exist)
+   */
+  async revoke(id: string): Promise<boolean> {
+    const record = await this.store.get(id);
+    if (!record) return false;
+    record.revokedAt ??= Date.now();
+    await this.store.save(record);
+    return true;
+  }
+
+  list(): Promise<ApiKeyRecord[]> {
+    return this.store.list();
+  }
+
+  private static isActive(record: ApiKeyRecord, now: number): boolean {
+    return !record.revokedAt &&
+      (record.expiresAt === undefined || record.expiresAt > now);
+  }
+}
+
+/**
+ * Read the API key from the configured header, the Authorization header
+ * or the query parameter
+ */
+export function extractApiKey(
+  request: Request,
+  config: Pick<ApiKeyConfig, "header" | "queryParam" | "prefix">,
+): string | null {
+  const header = request.headers.get(config.header)?.trim();
+  if (header) return header;
+
+  // Bearer tokens are only taken for keys with our prefix (other bearer
+  // tokens are left to token authentication)
+  const [scheme, credentials] =
+    request.headers.get("Authorization")?.trim().split(/\s+/, 2) ?? [];
+  if (credentials) {
+    if (/^ApiKey$/i.test(scheme)) return credentials;
+    if (
+      /^Bearer$/i.test(scheme) && credentials.startsWith(`${config.prefix}_`)
+    ) {
+      return credentials;
+    }
+  }
+
+  if (config.queryParam) {
+    const query = new URL(request.url).searchParams.get(config.queryParam);
+    if (query) return query;
+  }
+  return null;
+}
+
+/**
+ * Check a scope against granted scopes ("*" and "orders:*" wildcards)
+ */
+export function hasScope(granted: string[], scope: string): boolean {
+  return granted.some((entry) =>
+    entry === "*" || entry === scope ||
+    (entry.endsWith(":*") && scope.startsWith(entry.slice(0, -1)))
+  );
+}
+
+/**
+ * Check whether a key may call a route pattern
+ */
+export function canAccessRoute(record: ApiKeyRecord, pattern: string): boolean {
+  if (!record.routes) return true;
+  return record.routes.some((route) =>
+    route.endsWith("/*")
+      ? pattern === route.slice(0, -2) ||
+        pattern.startsWith(route.slice(0, -1))
+      : route === pattern
+  );
+}
+
+export function apiKeyIdentity(record: ApiKeyRecord): ApiKeyIdentity {
+  return {
+    id: record.id,
+    name: record.name,
+    scopes: record.scopes,
+    ...(record.metadata ? { metadata: record.metadata } : {}),
+  };
+}
@@ -0,0 +1,99 @@
+/**
+ * Weblisk Authorization Module
+ * Route access rules (`access` on typed routes and groups) checked against
+ * the principal an identity resolver finds for the request
+ *
+ * `"authenticated"` needs any principal, `"admin"` one with an admin role
+ * (the default for `admin` routes); a policy object can require roles
+ * and/or run a predicate. Without a custom resolver the principal comes
+ * from verified bearer token claims. Page routes send anonymous visitors
+ * to the login route, API routes answer 401/403 JSON, and WebSocket events
+ * of protected routes get the same checks.
+ */
+
+import type { RouteContext } from "./types.ts";
+import type { JwtClaims } from "./jwt.ts";
+
+/**
+ * The authenticated user or client of a request (`context.principal`)
+ */
+export interface Principal {
+  id: string;
+  roles: string[];
+  [key: string]: unknown;
+}
+
+export type IdentityResolver = (
+  context: RouteContext,
+) => Principal | null | Promise<Principal | null>;
+
+/**
+ * Role- and predicate-based rule; a principal must hold one of `roles`
+ * (when given) and pass `allow` (when given)
+ */
+export interface AccessPolicy {
+  roles?: string[];
+  allow?: (
+    principal: Principal,
+    context: RouteContext,
+  ) => boolean | Promise<boolean>;
+}
+
+export type RouteAccess = "public" | "authenticated" | "admin" | AccessPolicy;
+
+export interface AuthConfig {
+  loginPath: string; // Anonymous page visitors are redirected here if routed
+  redirectParam: string; // Query parameter carrying the original URL
+  adminRoles: string[]; // Roles that satisfy `access: "admin"`
+}
+
+export type AuthorizationResult = "allowed" | "unauthenticated" | "forbidden";
+
+/**
+ * Principal for verified token claims (roles from a `roles` array or a
+ * `role` string claim)
+ */
+export function principalFromClaims(claims: JwtClaims): Principal {
+  const roles = Array.isArray(claims.roles)
+    ? claims.roles.filter((role): role is string => typeof role === "string")
+    : typeof claims.role === "string"
+    ? [claims.role]
+    : [];
+  return { id: claims.sub ?? "", roles, claims };
+}
+
+/**
+ * Check a principal against a route's access rule
+ */
+export async function authorize(
+  access: RouteAccess,
+  principal: Principal | null,
+  context: RouteContext,
+  config: Pick<AuthConfig, "adminRoles">,
+): Promise<AuthorizationResult> {
+  if (access === "public") return "allowed";
+  if (!principal) return "unauthenticated";
+  if (access === "authenticated") return "allowed";
+
+  const roles = access === "admin" ? config.adminRoles : access.roles;
+  if (roles && !roles.some((role) => principal.roles.includes(role))) {
+    return "forbidden";
+  }
+  if (
+    typeof access === "object" && access.allow &&
+    !(await access.allow(principal, context))
+  ) {
+    return "forbidden";
+  }
+  return "allowed";
+}
+
+/**
+ * Login URL that returns to the current page afterwards
+ */
+export function loginRedirectUrl(url: URL, config: AuthConfig): string {
+  const params = new URLSearchParams({
+    [config.redirectParam]: `${url.pathname}${url.search}`,
+  });
+  return `${config.loginPath}?${params}`;
+}
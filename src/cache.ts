@@ -13,6 +13,7 @@ export interface CacheConfig {
   enableStructureCache: boolean;
   enableTemplateCache: boolean;
   enableStyleCache: boolean;
+  enablePageCache: boolean;
   maxCacheSize: number;
   ttl: number; // Time to live in milliseconds
 }
@@ -25,6 +26,17 @@ export interface CachedStructure {
   hash: string;
 }
 
+/**
+ * A fully rendered response stored by the page cache
+ */
+export interface CachedPage {
+  body: Uint8Array<ArrayBuffer>;
+  status: number;
+  headers: [string, string][];
+  etag: string;
+  expires: number; // Pages carry their own TTL from the route type
+}
+
 /**
  * Real-time optimized cache focused on HTML/CSS structure, not dynamic data
  */
@@ -35,6 +47,7 @@ export class WebliskCache {
     { template: string; timestamp: number }
   >();
   private styleCache = new Map<string, { styles: string; timestamp: number }>();
+  private pageCache = new Map<string, CachedPage>();
   private config: CacheConfig;
 
   constructor(config: Partial<CacheConfig> = {}) {
@@ -42,6 +55,7 @@ export class WebliskCache {
       enableStructureCache: true,
       enableTemplateCache: true,
       enableStyleCache: true,
+      enablePageCache: true,
       maxCacheSize: 1000,
       ttl: 60000, // 1 minute - short TTL for real-time apps
       ...config,
@@ -139,6 +153,11 @@ export class WebliskCache {
   cacheTemplate(key: string, template: string): void {
     if (!this.config.enableTemplateCache) return;
 
+    // Drop the oldest entry when full (keys can include per-session data)
+    if (this.templateCache.size >= this.config.maxCacheSize) {
+      this.templateCache.delete(this.templateCache.keys().next().value!);
+    }
+
     this.templateCache.set(key, {
       template,
       timestamp: Date.now(),
@@ -193,6 +212,60 @@ export class WebliskCache {
     return null;
   }
 
+  /**
+   * Cache a rendered page until its own expiry time
+   */
+  cachePage(key: string, page: CachedPage): void {
+    if (!this.config.enablePageCache) return;
+
+    if (this.pageCache.size >= this.config.maxCacheSize) {
+      const now = Date.now();
+      for (const [cachedKey, cached] of this.pageCache.entries()) {
+        if (cached.expires <= now) this.pageCache.delete(cachedKey);
+      }
+      // Still full: drop the oldest entry
+      if (this.pageCache.size >= this.config.maxCacheSize) {
+        this.pageCache.delete(this.pageCache.keys().next().value!);
+      }
+    }
+
+    this.pageCache.delete(key);
+    this.pageCache.set(key, page);
+  }
+
+  /**
+   * Get a cached page if it has not expired
+   */
+  getCachedPage(key: string): CachedPage | null {
+    if (!this.config.enablePageCache) return null;
+
+    const cached = this.pageCache.get(key);
+    if (cached && cached.expires > Date.now()) {
+      return cached;
+    }
+
+    if (cached) {
+      this.pageCache.delete(key);
+    }
+
+    return null;
+  }
+
+  /**
+   * Remove cached pages whose key starts with the prefix (all when omitted)
+   * Returns the number of pages removed
+   */
+  invalidatePages(prefix = ""): number {
+    let removed = 0;
+    for (const key of Array.from(this.pageCache.keys())) {
+      if (key.startsWith(prefix)) {
+        this.pageCache.delete(key);
+        removed++;
+      }
+    }
+    return removed;
+  }
+
   /**
    * Check if cache entry is still valid
    */
@@ -219,6 +292,7 @@ export class WebliskCache {
     this.structureCache.clear();
     this.templateCache.clear();
     this.styleCache.clear();
+    this.pageCache.clear();
   }
 
   /**
@@ -228,6 +302,7 @@ export class WebliskCache {
     structureCache: { size: number; maxSize: number };
     templateCache: { size: number };
     styleCache: { size: number };
+    pageCache: { size: number };
     config: CacheConfig;
   } {
     return {
@@ -241,6 +316,9 @@ export class WebliskCache {
       styleCache: {
         size: this.styleCache.size,
       },
+      pageCache: {
+        size: this.pageCache.size,
+      },
       config: this.config,
     };
   }
@@ -0,0 +1,202 @@
+/**
+ * Weblisk Compression Module
+ * Accept-Encoding negotiation and response compression via CompressionStream
+ */
+
+export type ContentEncoding = "br" | "gzip" | "deflate";
+
+export interface CompressionConfig {
+  enabled: boolean;
+  threshold: number; // Minimum body size in bytes
+  types: string[]; // Compressible Content-Types ("text/*" matches a family)
+  encodings: ContentEncoding[]; // Server preference order
+}
+
+export const DEFAULT_COMPRESSIBLE_TYPES: string[] = [
+  "text/*",
+  "application/javascript",
+  "application/json",
+  "application/manifest+json",
+  "application/x-ndjson",
+  "application/xml",
+  "image/svg+xml",
+];
+
+// CompressionStream format names ("brotli" is a Deno extension)
+const STREAM_FORMATS: Record<ContentEncoding, string> = {
+  br: "brotli",
+  gzip: "gzip",
+  deflate: "deflate",
+};
+
+const supportedEncodings = new Map<ContentEncoding, boolean>();
+
+/**
+ * Check whether the runtime's CompressionStream supports an encoding
+ */
+export function isEncodingSupported(encoding: ContentEncoding): boolean {
+  let supported = supportedEncodings.get(encoding);
+  if (supported === undefined) {
+    try {
+      new CompressionStream(STREAM_FORMATS[encoding] as CompressionFormat);
+      supported = true;
+    } catch {
+      supported = false;
+    }
+    supportedEncodings.set(encoding, supported);
+  }
+  return supported;
+}
+
+/**
+ * Pick the encoding the client accepts with the highest quality
+ * (ties go to the server's preference order)
+ */
+export function negotiateEncoding(
+  acceptEncoding: string | null,
+  encodings: ContentEncoding[],
+): ContentEncoding | undefined {
+  if (!acceptEncoding) return undefined;
+
+  const qualities = new Map<string, number>();
+  for (const part of acceptEncoding.split(",")) {
+    const [name, ...params] = part.trim().toLowerCase().split(";");
+    if (!name) continue;
+    const q = params.map((param) => param.trim())
+      .find((param) => param.startsWith("q="));
+    const quality = q ? Number(q.slice(2)) : 1;
+    qualities.set(name.trim(), Number.isFinite(quality) ? quality : 0);
+  }
+
+  let best: { encoding: ContentEncoding; q: number } | undefined;
+  for (const encoding of encodings) {
+    const q = qualities.get(encoding) ?? qualities.get("*") ?? 0;
+    if (q > 0 && (!best || q > best.q)) best = { encoding, q };
+  }
+  return best?.encoding;
+}
+
+/**
+ * Check a Content-Type against the allowlist
+ */
+export function isCompressibleType(
+  contentType: string | null,
+  types: string[],
+): boolean {
+  const mime = (contentType || "").split(";")[0].trim().toLowerCase();
+  if (!mime) return false;
+  return types.some((type) =>
+    type.endsWith("/*") ? mime.startsWith(type.slice(0, -1)) : mime === type
+  );
+}
+
+/**
+ * Compress a complete body
+ */
+export async function compressBytes(
+  bytes: Uint8Array<ArrayBuffer>,
+  encoding: ContentEncoding,
+): Promise<Uint8Array<ArrayBuffer>> {
+  const stream = new Blob([bytes]).stream().pipeThrough(
+    new CompressionStream(STREAM_FORMATS[encoding] as CompressionFormat),
+  );
+  return new Uint8Array(await new Response(stream).arrayBuffer());
+}
+
+/**
+ * Compress a response for the request's Accept-Encoding
+ * Bodies of unknown length are read up to the threshold first, so small
+ * responses are sent as-is while streamed pages stay streamed.
+ * `precompressed` supplies cached variants (used for static files).
+ */
+export async function compressResponse(
+  request: Request,
+  response: Response,
+  config: CompressionConfig,
+  precompressed?: (
+    encoding: ContentEncoding,
+  ) => Promise<Uint8Array<ArrayBuffer> | null>,
+): Promise<Response> {
+  const cacheControl = response.headers.get("Cache-Control") || "";
+  if (
+    !config.enabled || !response.body ||
+    response.status < 200 || [204, 206, 304].includes(response.status) ||
+    response.headers.has("Content-Encoding") ||
+    /\bno-transform\b/i.test(cacheControl) ||
+    !isCompressibleType(response.headers.get("Content-Type"), config.types)
+  ) {
+    return response;
+  }
+
+  const headers = new Headers(response.headers);
+  const vary = headers.get("Vary");
+  if (!vary) {
+    headers.set("Vary", "Accept-Encoding");
+  } else if (!/\baccept-encoding\b|\*/i.test(vary)) {
+    headers.set("Vary", `${vary}, Accept-Encoding`);
+  }
+  const init = { status: response.status, statusText: response.statusText };
+
+  const encoding = negotiateEncoding(
+    request.headers.get("Accept-Encoding"),
+    config.encodings.filter(isEncodingSupported),
+  );
+  const declaredLength = headers.get("Content-Length");
+  if (
+    !encoding ||
+    (declaredLength !== null && Number(declaredLength) < config.threshold)
+  ) {
+    return new Response(response.body, { ...init, headers });
+  }
+
+  let body: ReadableStream<Uint8Array> | Uint8Array<ArrayBuffer> | null =
+    await precompressed?.(encoding) ?? null;
+
+  if (body) {
+    await response.body.cancel();
+  } else {
+    const reader = response.body.getReader();
+    const head: Uint8Array<ArrayBuffer>[] = [];
+    let size = 0;
+    let ended = false;
+    while (size < config.threshold) {
+      const chunk = await reader.read();
+      if (chunk.done) {
+        ended = true;
+        break;
+      }
+      head.push(chunk.value as Uint8Array<ArrayBuffer>);
+      size += chunk.value.byteLength;
+    }
+
+    const rest = new ReadableStream<Uint8Array<ArrayBuffer>>({
+      start(controller) {
+        for (const chunk of head) controller.enqueue(chunk);
+        if (ended) controller.close();
+      },
+      async pull(controller) {
+        const chunk = await reader.read();
+        if (chunk.done) controller.close();
+        else controller.enqueue(chunk.value as Uint8Array<ArrayBuffer>);
+      },
+      cancel(reason) {
+        return reader.cancel(reason);
+      },
+    });
+
+    if (ended && size < config.threshold) {
+      return new Response(rest, { ...init, headers });
+    }
+    body = rest.pipeThrough(
+      new CompressionStream(STREAM_FORMATS[encoding] as CompressionFormat),
+    );
+  }
+
+  headers.set("Content-Encoding", encoding);
+  headers.delete("Content-Length");
+  // The compressed bytes differ, so the validator becomes weak
+  const etag = headers.get("ETag");
+  if (etag && !etag.startsWith("W/")) headers.set("ETag", `W/${etag}`);
+
+  return new Response(body, { ...init, headers });
+}
@@ -3,6 +3,24 @@
  * Provides environment-based configuration with validation
  */
 
+import {
+  type CompressionConfig,
+  DEFAULT_COMPRESSIBLE_TYPES,
+} from "./compression.ts";
+import type { OpenApiConfig } from "./openapi.ts";
+import type { RateLimitAlgorithm } from "./rate-limit.ts";
+import type { SeoConfig } from "./sitemap.ts";
+import type { VersioningConfig } from "./versioning.ts";
+import type { ApiKeyConfig } from "./api-keys.ts";
+import type { JwtConfig } from "./jwt.ts";
+import type { AuthConfig } from "./authorization.ts";
+import type { JobConfig } from "./jobs.ts";
+import type {
+  RedirectRule,
+  RewriteRule,
+  TrailingSlashPolicy,
+} from "./redirects.ts";
+
 // Deep partial type for nested config objects
 type DeepPartial<T> = {
   [P in keyof T]?: T[P] extends object ? DeepPartial<T[P]> : T[P];
@@ -51,13 +69,60 @@ export interface WebliskConfig {
     rateLimitEnabled: boolean;
     rateLimitRequests: number;
     rateLimitWindowMs: number;
+    rateLimitAlgorithm: RateLimitAlgorithm;
     securityHeadersEnabled: boolean;
     contentSecurityPolicy: boolean;
     enableHSTS: boolean;
     trustProxy: boolean;
+    proxyHops: number; // Trusted proxies in front of the app (X-Forwarded-For entries read from the right)
     sessionTimeout: number; // in seconds
   };
 
+  // Request body parsing limits (in bytes)
+  request: {
+    maxBodySize: number; // JSON, urlencoded and text bodies
+    maxMultipartSize: number; // multipart/form-data bodies (file uploads)
+  };
+
+  // Routing configuration (evaluated before static files and routes)
+  routing: {
+    redirects: RedirectRule[];
+    rewrites: RewriteRule[];
+    trailingSlash: TrailingSlashPolicy;
+  };
+
+  // HTTP response compression for route responses and static files
+  compression: CompressionConfig;
+
+  // Full-page output cache for routes whose cache strategy is "full"
+  cache: {
+    pages: boolean;
+    maxPages: number;
+    bypassCookies: string[]; // Requests carrying any of these skip the cache
+  };
+
+  // Generated /sitemap.xml and /robots.txt (static files and routes with
+  // the same path take precedence)
+  seo: SeoConfig;
+
+  // Generated OpenAPI document and interactive docs for API routes
+  openapi: OpenApiConfig;
+
+  // How clients select between routes registered with different `version`s
+  versioning: VersioningConfig;
+
+  // API key extraction, generation and rotation
+  apiKeys: ApiKeyConfig;
+
+  // Bearer token verification (keys, accepted issuers and audiences)
+  jwt: JwtConfig;
+
+  // Route access rules: login redirect and admin roles
+  auth: AuthConfig;
+
+  // Background job queue for batch routes
+  jobs: JobConfig;
+
   // Monitoring configuration
   monitoring: {
     healthCheckEnabled: boolean;
@@ -91,7 +156,7 @@ export const defaultConfig: WebliskConfig = {
     pingInterval: 30000, // 30 seconds
     pongTimeout: 5000, // 5 seconds
     maxConnections: 1000,
-    compressionEnabled: true,
+    compressionEnabled: true, // permessage-deflate; Deno.upgradeWebSocket has no option for it yet
     reconnectInterval: 3000, // 3 seconds for client reconnection
   },
 
@@ -108,13 +173,96 @@ export const defaultConfig: WebliskConfig = {
     rateLimitEnabled: true, // Enable by default
     rateLimitRequests: 100,
     rateLimitWindowMs: 60000, // 1 minute
+    rateLimitAlgorithm: "fixed-window",
     securityHeadersEnabled: true,
     contentSecurityPolicy: true,
     enableHSTS: false, // Only enable with HTTPS
     trustProxy: false,
+    proxyHops: 1,
     sessionTimeout: 60 * 60 * 24 * 7, // 7 days instead of 30
   },
 
+  request: {
+    maxBodySize: 1024 * 1024, // 1 MB
+    maxMultipartSize: 10 * 1024 * 1024, // 10 MB
+  },
+
+  routing: {
+    redirects: [],
+    rewrites: [],
+    trailingSlash: "ignore", // Serve both /about and /about/
+  },
+
+  compression: {
+    enabled: true,
+    threshold: 1024, // Smaller bodies are sent uncompressed
+    types: DEFAULT_COMPRESSIBLE_TYPES,
+    encodings: ["br", "gzip", "deflate"],
+  },
+
+  cache: {
+    pages: true,
+    maxPages: 1000,
+    bypassCookies: [], // e.g. the auth cookie of logged-in users
+  },
+
+  seo: {
+    sitemap: true,
+    robotsTxt: true,
+    robots: [{ userAgent: "*" }], // Allow everything
+  },
+
+  openapi: {
+    enabled: true,
+    path: "/openapi.json",
+    docsPath: "/api-docs",
+    interactive: true,
+    title: "Weblisk API",
+    version: "1.0.0",
+    servers: [], // Empty = the request origin
+    routeTypes: ["public-api"],
+  },
+
+  versioning: {
+    strategies: ["url", "header", "media-type"],
+    prefix: "v", // /v2/orders
+    header: "Accept-Version",
+    vendor: "weblisk", // application/vnd.weblisk.v2+json
+    defaultVersion: "oldest", // Unaware clients keep their original version
+  },
+
+  apiKeys: {
+    header: "X-API-Key",
+    queryParam: "api_key",
+    prefix: "wlk", // wlk_...
+    rotationOverlap: 60 * 60 * 24, // Rotated keys keep working for a day
+  },
+
+  jwt: {
+    algorithms: ["HS256", "RS256", "ES256"],
+    jwksCacheTtl: 600, // 10 minutes
+    clockSkew: 60,
+    requireExpiry: true,
+    webSocketQueryParam: "access_token",
+    requireForWebSocket: false,
+  },
+
+  auth: {
+    loginPath: "/login", // Used only when a route is registered there
+    redirectParam: "next",
+    adminRoles: ["admin"],
+  },
+
+  jobs: {
+    concurrency: 4,
+    retries: 3,
+    retryDelay: 1000, // 1s, 2s, 4s with exponential backoff
+    maxRetryDelay: 5 * 60 * 1000,
+    backoffStrategy: "exponential",
+    retention: 60 * 60 * 24, // Finished jobs are kept for a day
+    statusPath: "/jobs", // GET /jobs/<id>
+  },
+
   monitoring: {
     healthCheckEnabled: true,
     healthCheckInterval: 30000, // 30 seconds
@@ -212,6 +360,14 @@ export class WebliskConfigManager {
       errors.push("Cookie max age must be positive");
     }
 
+    // Validate proxy configuration
+    if (
+      !Number.isInteger(this.config.security.proxyHops) ||
+      this.config.security.proxyHops < 1
+    ) {
+      errors.push("Proxy hops must be a positive integer");
+    }
+
     // Validate rate limiting
     if (this.config.security.rateLimitEnabled) {
       if (this.config.security.rateLimitRequests < 1) {
@@ -220,6 +376,15 @@ export class WebliskConfigManager {
       if (this.config.security.rateLimitWindowMs < 1000) {
         errors.push("Rate limit window must be at least 1000ms");
       }
+      if (
+        !["fixed-window", "sliding-window", "token-bucket"].includes(
+          this.config.security.rateLimitAlgorithm,
+        )
+      ) {
+        errors.push(
+          "Rate limit algorithm must be fixed-window, sliding-window or token-bucket",
+        );
+      }
     }
 
     // Validate CORS configuration
@@ -237,6 +402,98 @@ export class WebliskConfigManager {
       }
     }
 
+    // Validate request limits
+    if (
+      this.config.request.maxBodySize < 1 ||
+      this.config.request.maxMultipartSize < 1
+    ) {
+      errors.push("Request body size limits must be positive");
+    }
+
+    // Validate routing configuration
+    if (
+      !["ignore", "always", "never"].includes(
+        this.config.routing.trailingSlash,
+      )
+    ) {
+      errors.push("Trailing slash policy must be ignore, always or never");
+    }
+
+    // Validate compression configuration
+    if (this.config.compression.threshold < 0) {
+      errors.push("Compression threshold cannot be negative");
+    }
+
+    // Validate cache configuration
+    if (this.config.cache.maxPages < 1) {
+      errors.push("Page cache size must be at least 1");
+    }
+
+    // Validate SEO configuration
+    if (
+      this.config.seo.siteUrl &&
+      !/^https?:\/\/[^/]+\/?$/.test(this.config.seo.siteUrl)
+    ) {
+      errors.push("SEO site URL must be an http(s) origin");
+    }
+
+    // Validate OpenAPI configuration
+    if (
+      !this.config.openapi.path.startsWith("/") ||
+      !this.config.openapi.docsPath.startsWith("/")
+    ) {
+      errors.push("OpenAPI document and docs paths must start with /");
+    }
+
+    // Validate versioning configuration
+    if (
+      !["oldest", "latest"].includes(this.config.versioning.defaultVersion)
+    ) {
+      errors.push("Default API version must be oldest or latest");
+    }
+
+    // Validate API key configuration
+    if (!this.config.apiKeys.header || !this.config.apiKeys.prefix) {
+      errors.push("API key header and prefix must not be empty");
+    }
+    if (this.config.apiKeys.rotationOverlap < 0) {
+      errors.push("API key rotation overlap must not be negative");
+    }
+
+    // Validate JWT configuration
+    const jwtAlgorithms = ["HS256", "RS256", "ES256"];
+    if (
+      this.config.jwt.algorithms.length === 0 ||
+      this.config.jwt.algorithms.some((alg) => !jwtAlgorithms.includes(alg))
+    ) {
+      errors.push("JWT algorithms must be HS256, RS256 or ES256");
+    }
+    if (this.config.jwt.clockSkew < 0) {
+      errors.push("JWT clock skew must not be negative");
+    }
+
+    // Validate auth configuration
+    if (!this.config.auth.loginPath.startsWith("/")) {
+      errors.push("Login path must start with /");
+    }
+
+    // Validate job queue configuration
+    if (this.config.jobs.concurrency < 1) {
+      errors.push("Job concurrency must be at least 1");
+    }
+    if (this.config.jobs.retries < 0 || this.config.jobs.retryDelay < 0) {
+      errors.push("Job retries and retry delay must not be negative");
+    }
+    if (!["linear", "exponential"].includes(this.config.jobs.backoffStrategy)) {
+      errors.push("Job backoff strategy must be linear or exponential");
+    }
+    if (
+      this.config.jobs.statusPath &&
+      !this.config.jobs.statusPath.startsWith("/")
+    ) {
+      errors.push("Job status path must start with /");
+    }
+
     // Validate HTTPS configuration for production
     if (!this.config.development.debugMode) {
       if (!this.config.server.enableHttps) {
@@ -307,6 +564,11 @@ export class WebliskConfigManager {
       this.config.logging.logFile = env.WEBLISK_LOG_FILE;
     }
 
+    // SEO configuration
+    if (env.WEBLISK_SITE_URL) {
+      this.config.seo.siteUrl = env.WEBLISK_SITE_URL;
+    }
+
     // Development configuration
     if (env.WEBLISK_DEBUG === "true") {
       this.config.development.debugMode = true;
@@ -319,6 +581,9 @@ export class WebliskConfigManager {
     if (env.WEBLISK_CORS_ORIGINS) {
       this.config.security.corsOrigins = env.WEBLISK_CORS_ORIGINS.split(",");
     }
+    if (env.WEBLISK_JWT_SECRET) {
+      this.config.jwt.secret = env.WEBLISK_JWT_SECRET;
+    }
 
     // Auto-enable secure cookies when HTTPS is enabled
     if (this.config.server.enableHttps) {
@@ -355,6 +620,50 @@ export class WebliskConfigManager {
     return { ...this.config.security };
   }
 
+  getRequest(): WebliskConfig["request"] {
+    return { ...this.config.request };
+  }
+
+  getRouting(): WebliskConfig["routing"] {
+    return { ...this.config.routing };
+  }
+
+  getCompression(): WebliskConfig["compression"] {
+    return { ...this.config.compression };
+  }
+
+  getCache(): WebliskConfig["cache"] {
+    return { ...this.config.cache };
+  }
+
+  getSeo(): WebliskConfig["seo"] {
+    return { ...this.config.seo };
+  }
+
+  getOpenApi(): WebliskConfig["openapi"] {
+    return { ...this.config.openapi };
+  }
+
+  getVersioning(): WebliskConfig["versioning"] {
+    return { ...this.config.versioning };
+  }
+
+  getApiKeys(): WebliskConfig["apiKeys"] {
+    return { ...this.config.apiKeys };
+  }
+
+  getJwt(): WebliskConfig["jwt"] {
+    return { ...this.config.jwt };
+  }
+
+  getAuth(): WebliskConfig["auth"] {
+    return { ...this.config.auth };
+  }
+
+  getJobs(): WebliskConfig["jobs"] {
+    return { ...this.config.jobs };
+  }
+
   getMonitoring(): WebliskConfig["monitoring"] {
     return { ...this.config.monitoring };
   }
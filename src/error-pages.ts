@@ -0,0 +1,187 @@
+/**
+ * Weblisk Error Pages Module
+ * Custom 404/500 pages per path prefix and the development error overlay
+ */
+
+import { HttpError, RouteDataError } from "./types.ts";
+import type { RouteConfig, WebliskRoute } from "./routes.ts";
+import type { TypedRouteConfig } from "./route-types.ts";
+
+export type ErrorPageConfig = RouteConfig | WebliskRoute | TypedRouteConfig;
+
+/**
+ * Error page configs for a path prefix (app-level pages use "/")
+ */
+export interface ErrorPageConfigs {
+  notFound?: ErrorPageConfig;
+  error?: ErrorPageConfig;
+}
+
+/**
+ * Error details passed to error pages as `context.error`
+ */
+export interface RouteErrorInfo {
+  status: number;
+  message: string;
+  name: string;
+  method: string;
+  path: string;
+  route?: string; // Matched route pattern, if any
+  params?: Record<string, string>;
+  dataFunction?: string; // Data function that threw ("data" or "globalData")
+  stack?: string; // Only set in development mode
+}
+
+/**
+ * Stores error pages by path prefix and resolves the most specific one
+ */
+export class ErrorPageRegistry<T> {
+  private pages = new Map<string, { notFound?: T; error?: T }>();
+
+  /**
+   * Set error pages for a prefix, keeping pages not given here
+   */
+  set(prefix: string, pages: { notFound?: T; error?: T }): void {
+    const existing = this.pages.get(prefix) || {};
+    this.pages.set(prefix, {
+      notFound: pages.notFound ?? existing.notFound,
+      error: pages.error ?? existing.error,
+    });
+  }
+
+  /**
+   * Find the page for a pathname using the longest matching prefix
+   */
+  find(pathname: string, kind: "notFound" | "error"): T | undefined {
+    let best: { length: number; page: T } | undefined;
+
+    for (const [prefix, pages] of this.pages) {
+      const page = pages[kind];
+      if (!page || !ErrorPageRegistry.hasPrefix(pathname, prefix)) continue;
+      if (!best || prefix.length > best.length) {
+        best = { length: prefix.length, page };
+      }
+    }
+
+    return best?.page;
+  }
+
+  /**
+   * Get all registered prefixes and their pages
+   */
+  entries(): Array<[string, { notFound?: T; error?: T }]> {
+    return Array.from(this.pages.entries());
+  }
+
+  private static hasPrefix(pathname: string, prefix: string): boolean {
+    return prefix === "/" || pathname === prefix ||
+      pathname.startsWith(`${prefix}/`);
+  }
+}
+
+/**
+ * Build error details from a thrown value
+ * Messages of unexpected errors are only exposed in development mode
+ */
+export function describeError(
+  error: unknown,
+  request: Request,
+  options: {
+    development: boolean;
+    route?: string;
+    params?: Record<string, string>;
+  },
+): RouteErrorInfo {
+  const url = new URL(request.url);
+  const dataFunction = error instanceof RouteDataError
+    ? error.dataFunction
+    : undefined;
+  const original = error instanceof RouteDataError ? error.cause : error;
+  const status = original instanceof HttpError ? original.status : 500;
+  const exposeMessage = options.development || original instanceof HttpError;
+
+  return {
+    status,
+    name: original instanceof Error ? original.name : "Error",
+    message: exposeMessage
+      ? (original instanceof Error ? original.message : String(original))
+      : "Internal Server Error",
+    method: request.method,
+    path: url.pathname,
+    route: options.route,
+    params: options.params,
+    dataFunction,
+    stack: options.development && original instanceof Error
+      ? original.stack
+      : undefined,
+  };
+}
+
+function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&#x27;");
+}
+
+/**
+ * Render the development error overlay
+ */
+export function renderErrorOverlay(info: RouteErrorInfo): string {
+  const params = Object.entries(info.params || {});
+  const rows = [
+    ["Request", `${info.method} ${info.path}`],
+    ["Route", info.route || "(no matching route)"],
+    ["Data function", info.dataFunction ? `${info.dataFunction}()` : "-"],
+  ];
+
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+  <meta charset="UTF-8">
+  <meta name="viewport" content="width=device-width, initial-scale=1.0">
+  <title>${info.status} ${escapeHtml(info.name)}</title>
+  <style>
+    body { margin: 0; padding: 2rem; background: #1a1a1a; color: #eee; font-family: ui-monospace, Menlo, Consolas, monospace; }
+    .weblisk-error-overlay { max-width: 960px; margin: 0 auto; }
+    h1 { color: #ff6b6b; font-size: 1.4rem; margin: 0 0 0.5rem; }
+    .message { font-size: 1.1rem; margin: 0 0 1.5rem; white-space: pre-wrap; }
+    table { border-collapse: collapse; margin-bottom: 1.5rem; }
+    th, td { text-align: left; padding: 0.25rem 1rem 0.25rem 0; vertical-align: top; }
+    th { color: #999; font-weight: normal; }
+    pre { background: #111; padding: 1rem; overflow-x: auto; border-left: 3px solid #ff6b6b; }
+    footer { color: #777; font-size: 0.85rem; }
+  </style>
+</head>
+<body>
+  <div class="weblisk-error-overlay">
+    <h1>${info.status} ${escapeHtml(info.name)}</h1>
+    <p class="message">${escapeHtml(info.message)}</p>
+    <table>
+${
+    rows.map(([label, value]) =>
+      `      <tr><th>${label}</th><td>${escapeHtml(value)}</td></tr>`
+    ).join("\n")
+  }
+    </table>
+    <h2>Params</h2>
+    ${
+    params.length > 0
+      ? `<table>\n${
+        params.map(([name, value]) =>
+          `      <tr><th>${escapeHtml(name)}</th><td>${
+            escapeHtml(value)
+          }</td></tr>`
+        ).join("\n")
+      }\n    </table>`
+      : "<p>(none)</p>"
+  }
+    <h2>Stack trace</h2>
+    <pre>${escapeHtml(info.stack || "(no stack trace)")}</pre>
+    <footer>Shown because development.debugMode is enabled.</footer>
+  </div>
+</body>
+</html>`;
+}
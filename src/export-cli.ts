@@ -0,0 +1,34 @@
+/**
+ * Weblisk Export Command
+ * Exports an app using the loader's directory layout as a static site
+ *
+ *   deno task export [basePath] [outDir]
+ *
+ * sitemap.xml and robots.txt are only written when the public origin is
+ * known: set seo.siteUrl or WEBLISK_SITE_URL.
+ *
+ * Kept apart from export.ts: the app modules this loads import export.ts
+ * themselves, and a main module caught in that cycle never finishes its
+ * top-level await.
+ */
+
+import { createApp } from "./loader.ts";
+
+const [basePath = ".", outDir = "dist"] = Deno.args;
+// No periodic health checks: their timer would keep the process alive
+const app = await createApp(
+  { monitoring: { healthCheckEnabled: false } },
+  { basePath },
+);
+const result = await app.exportStatic({ outDir });
+
+for (const { path, reason } of result.skipped) {
+  console.warn(`Skipped ${path}: ${reason}`);
+}
+for (const { path, status, error } of result.failed) {
+  console.error(`Failed ${path}: ${error ?? `status ${status}`}`);
+}
+console.log(
+  `Exported ${result.pages.length} pages and ${result.files.length} files to ${outDir}`,
+);
+if (result.failed.length > 0) Deno.exit(1);
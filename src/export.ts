@@ -0,0 +1,202 @@
+/**
+ * Weblisk Export Module
+ * Static site export: prerenderable routes and static files as plain files
+ *
+ * Pages are rendered through the normal request pipeline (middleware,
+ * redirects, layouts), so the output matches what the server would send.
+ *
+ * Command line: `deno task export [basePath] [outDir]` (see export-cli.ts)
+ */
+
+import { dirname, join } from "@std/path";
+import { WebliskRouter } from "./router.ts";
+import type { WebliskRoute } from "./routes.ts";
+import { WebliskError } from "./types.ts";
+import { logger } from "./logger.ts";
+
+export interface StaticExportOptions {
+  outDir: string;
+  baseUrl?: string; // Origin for the render requests (default http://localhost)
+  trailingSlash?: boolean; // /about → about/index.html (default) or about.html
+  notFoundPage?: boolean; // Write 404.html from the notFound page (default true)
+  writeFile?: (path: string, content: Uint8Array) => Promise<void>;
+}
+
+export interface StaticExportResult {
+  pages: string[]; // URL paths written as HTML
+  files: string[]; // Static file paths written
+  skipped: { path: string; reason: string }[];
+  failed: { path: string; status?: number; error?: string }[];
+}
+
+/**
+ * What the export reads from an application
+ */
+export interface StaticExportSource {
+  handle(request: Request): Promise<Response>;
+  routes: Array<[string, WebliskRoute]>;
+  files: string[];
+}
+
+async function writeToDisk(path: string, content: Uint8Array): Promise<void> {
+  await Deno.mkdir(dirname(path), { recursive: true });
+  await Deno.writeFile(path, content);
+}
+
+/**
+ * Map a URL path to a file path relative to the output directory
+ */
+export function exportFilePath(urlPath: string, trailingSlash = true): string {
+  const segments = urlPath.split("/").filter(Boolean).map(decodeURIComponent);
+  if (segments.some((segment) => segment === ".." || segment === ".")) {
+    throw new WebliskError(
+      `Refusing to export path outside the output directory: ${urlPath}`,
+      "INVALID_EXPORT_PATH",
+      { path: urlPath },
+    );
+  }
+
+  if (segments.length === 0) return "index.html";
+  const last = segments[segments.length - 1];
+  if (last.includes(".")) return segments.join("/"); // e.g. /feed.xml
+  return trailingSlash
+    ? [...segments, "index.html"].join("/")
+    : `${segments.join("/")}.html`;
+}
+
+/**
+ * List the URL paths to prerender, expanding dynamic routes with their
+ * staticPaths() params
+ */
+async function collectPages(
+  routes: Array<[string, WebliskRoute]>,
+  result: StaticExportResult,
+): Promise<string[]> {
+  const paths = new Set<string>();
+
+  for (const [pattern, route] of routes) {
+    if (!route.isPrerenderable()) continue;
+
+    const isDynamic = WebliskRouter.parsePattern(pattern)
+      .some((segment) => segment.type !== "static");
+    if (!isDynamic) {
+      paths.add(pattern);
+      continue;
+    }
+
+    const staticPaths = await route.getStaticPaths();
+    if (staticPaths.length === 0) {
+      result.skipped.push({
+        path: pattern,
+        reason: "dynamic route without staticPaths()",
+      });
+      continue;
+    }
+    for (const params of staticPaths) {
+      try {
+        paths.add(WebliskRouter.buildPath(pattern, params));
+      } catch (error) {
+        result.failed.push({
+          path: pattern,
+          error: error instanceof Error ? error.message : String(error),
+        });
+      }
+    }
+  }
+
+  return Array.from(paths);
+}
+
+/**
+ * Render prerenderable routes and static files into the output directory
+ */
+export async function exportStaticSite(
+  source: StaticExportSource,
+  options: StaticExportOptions,
+): Promise<StaticExportResult> {
+  const baseUrl = (options.baseUrl || "http://localhost").replace(/\/$/, "");
+  const writeFile = options.writeFile || writeToDisk;
+  const result: StaticExportResult = {
+    pages: [],
+    files: [],
+    skipped: [],
+    failed: [],
+  };
+
+  const fetchPath = async (path: string) => {
+    const response = await source.handle(new Request(`${baseUrl}${path}`));
+    return {
+      response,
+      body: new Uint8Array(await response.arrayBuffer()),
+    };
+  };
+
+  const write = async (
+    urlPath: string,
+    filePath: string,
+    list: string[],
+    expectedStatus = 200,
+  ) => {
+    try {
+      const { response, body } = await fetchPath(urlPath);
+      if (response.status !== expectedStatus) {
+        if (response.status >= 300 && response.status < 400) {
+          result.skipped.push({
+            path: urlPath,
+            reason: `redirects to ${response.headers.get("Location")}`,
+          });
+        } else {
+          result.failed.push({ path: urlPath, status: response.status });
+        }
+        return;
+      }
+      await writeFile(join(options.outDir, filePath), body);
+      list.push(urlPath);
+    } catch (error) {
+      result.failed.push({
+        path: urlPath,
+        error: error instanceof Error ? error.message : String(error),
+      });
+    }
+  };
+
+  for (const path of await collectPages(source.routes, result)) {
+    let filePath: string;
+    try {
+      filePath = exportFilePath(path, options.trailingSlash !== false);
+    } catch (error) {
+      result.failed.push({
+        path,
+        error: error instanceof Error ? error.message : String(error),
+      });
+      continue;
+    }
+    await write(path, filePath, result.pages);
+  }
+
+  for (const path of source.files) {
+    await write(path, path.replace(/^\/+/, ""), result.files);
+  }
+
+  // Static hosts serve 404.html for unknown paths
+  if (options.notFoundPage !== false) {
+    const { response, body } = await fetchPath("/__weblisk_export_404__");
+    if (
+      response.status === 404 &&
+      response.headers.get("Content-Type")?.startsWith("text/html")
+    ) {
+      await writeFile(join(options.outDir, "404.html"), body);
+      result.pages.push("/404.html");
+    }
+  }
+
+  logger.info("Static export complete", {
+    outDir: options.outDir,
+    pages: result.pages.length,
+    files: result.files.length,
+    skipped: result.skipped.length,
+    failed: result.failed.length,
+  });
+
+  return result;
+}
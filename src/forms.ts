@@ -3,7 +3,8 @@
  * Server-side form processing with WebSocket integration and file upload support
  */
 
-import type { RouteContext } from "./types.ts";
+import { HttpError, type RouteContext } from "./types.ts";
+import { parseRequestBody } from "./request.ts";
 
 export interface FormValidationRule {
   required?: boolean;
@@ -61,6 +62,13 @@ export interface FormProcessorConfig {
     context: RouteContext,
   ) => Promise<void> | void;
   sanitize?: boolean;
+  // WebSocket event handled by routes with a `form` config (default "form-submit")
+  event?: string;
+  // Where to send the browser after a successful no-JS POST (Post/Redirect/Get);
+  // defaults to the same URL
+  redirect?:
+    | string
+    | ((result: unknown, data: Record<string, unknown>) => string);
   hooks?: {
     beforeValidation?: (
       data: Record<string, unknown>,
@@ -76,6 +84,15 @@ export interface FormProcessorConfig {
   };
 }
 
+/**
+ * Form state exposed to templates as `data.form` on routes with a `form` config
+ */
+export interface FormState {
+  submitted: boolean;
+  errors: Record<string, string>;
+  values: Record<string, unknown>; // Sanitized values to re-fill the form
+}
+
 /**
  * Server-side form processor that integrates with WebSocket events
  */
@@ -90,28 +107,43 @@ export class WebliskFormProcessor {
   }
 
   /**
-   * Process form data received via WebSocket
+   * Process form data received via WebSocket (or parsed by processRequest)
    */
   async processFormData(
     formData: Record<string, unknown>,
     context: RouteContext,
   ): Promise<FormValidationResult> {
+    const hooks = this.config.hooks || {};
+
     // Sanitize input if enabled
     const sanitizedData = this.config.sanitize
       ? this.sanitizeFormData(formData)
       : formData;
+    const preparedData = hooks.beforeValidation
+      ? hooks.beforeValidation(sanitizedData)
+      : sanitizedData;
 
     // Validate the form data
-    const validation = this.validateFormData(sanitizedData);
+    let validation = this.validateFormData(preparedData);
+    if (hooks.afterValidation) {
+      validation = hooks.afterValidation(validation);
+    }
 
     if (validation.isValid) {
-      // Call success handler if provided
-      if (this.config.onSuccess) {
+      // Call success handler if provided (`submit` is an alias)
+      const handler = this.config.onSuccess || this.config.submit;
+      if (handler) {
         try {
-          const result = await this.config.onSuccess(sanitizedData, context);
+          const data = hooks.beforeProcess
+            ? await hooks.beforeProcess(validation.data)
+            : validation.data;
+          let result = await handler(data, context);
+          if (hooks.afterProcess) {
+            result = await hooks.afterProcess(result, data);
+          }
           return {
             ...validation,
-            data: { ...sanitizedData, result },
+            data: { ...data, result },
           };
         } catch (error) {
           const errorMessage = error instanceof Error
@@ -120,7 +152,7 @@ export class WebliskFormProcessor {
           return {
             isValid: false,
             errors: { _form: `Processing error: ${errorMessage}` },
-            data: sanitizedData,
+            data: validation.data,
           };
         }
       }
@@ -134,6 +166,35 @@ export class WebliskFormProcessor {
     return validation;
   }
 
+  /**
+   * Process a form submitted over plain HTTP (urlencoded, multipart or JSON)
+   * Uploaded files are returned separately in `files`; JSON bodies that are
+   * not objects are refused with a 400 HttpError (INVALID_BODY)
+   */
+  async processRequest(context: RouteContext): Promise<FormValidationResult> {
+    const body: unknown = context.body
+      ? await context.body()
+      : await parseRequestBody(context.request);
+    if (typeof body !== "object" || body === null || Array.isArray(body)) {
+      throw new HttpError("Form body must be an object", 400, "INVALID_BODY");
+    }
+
+    const formData: Record<string, unknown> = {};
+    const files: Record<string, File[]> = {};
+    for (const [key, value] of Object.entries(body)) {
+      const values = Array.isArray(value) ? value : [value];
+      const uploads = values.filter((item) => item instanceof File);
+      if (uploads.length > 0) {
+        files[key] = uploads;
+      } else {
+        formData[key] = value;
+      }
+    }
+
+    const result = await this.processFormData(formData, context);
+    return Object.keys(files).length > 0 ? { ...result, files } : result;
+  }
+
   /**
    * Validate form data against rules
    */
@@ -0,0 +1,247 @@
+/**
+ * Weblisk Route Groups Module
+ * Shared prefixes, layouts, middleware and typed defaults for sets of routes
+ */
+
+import { composeMiddleware, type Middleware } from "./middleware.ts";
+import {
+  type RouteConfig,
+  WebliskApiRoute,
+  type WebliskFrameworkRouteConfig,
+  WebliskRoute,
+} from "./routes.ts";
+import { routeHelpers, type TypedRouteConfig } from "./route-types.ts";
+import type { ErrorPageConfigs } from "./error-pages.ts";
+
+/**
+ * Defaults applied to every route registered through a group
+ * Route-level values win; `meta`, `html`, `optimization` and `advanced` are
+ * shallow-merged and group middleware runs before route middleware.
+ * `notFound` and `error` pages apply to unmatched paths and failures under
+ * the group prefix.
+ */
+export type RouteGroupOptions =
+  & ErrorPageConfigs
+  & Pick<
+    TypedRouteConfig,
+    | "access"
+    | "advanced"
+    | "html"
+    | "layout"
+    | "meta"
+    | "middleware"
+    | "negotiate"
+    | "optimization"
+    | "rateLimit"
+    | "sitemap"
+    | "stream"
+    | "type"
+    | "version"
+  >;
+
+export type GroupRouteConfig = RouteConfig | WebliskRoute | TypedRouteConfig;
+
+/**
+ * Anything routes can be registered on (the framework or a parent group)
+ */
+export interface RouteRegistrar {
+  route(path: string, routeConfig: GroupRouteConfig): unknown;
+  registerErrorPages(prefix: string, pages: ErrorPageConfigs): unknown;
+}
+
+/**
+ * Join a prefix and a route path into a normalized pattern
+ */
+export function joinRoutePath(prefix: string, path: string): string {
+  const joined = `/${prefix}/${path}`.replace(/\/+/g, "/");
+  return joined.length > 1 ? joined.replace(/\/$/, "") : joined;
+}
+
+/**
+ * Merge group defaults into a single route configuration
+ * Route instances are rebuilt so the original instance is left untouched
+ */
+export function applyRouteDefaults(
+  routeConfig: GroupRouteConfig,
+  defaults: Omit<RouteGroupOptions, keyof ErrorPageConfigs>,
+): GroupRouteConfig {
+  const isInstance = routeConfig instanceof WebliskRoute;
+  const config =
+    (isInstance
+      ? routeConfig.getUserConfig()
+      : routeConfig) as TypedRouteConfig;
+
+  const merged: TypedRouteConfig = {
+    ...defaults,
+    ...config,
+    meta: mergeOptional(defaults.meta, config.meta),
+    html: mergeOptional(defaults.html, config.html),
+    optimization: mergeOptional(defaults.optimization, config.optimization),
+    advanced: mergeOptional(defaults.advanced, config.advanced),
+    middleware: [...(defaults.middleware || []), ...(config.middleware || [])],
+  };
+
+  // Plain and typed framework routes are recreated from the config (so typed
+  // routes are registered again under the new path); other classes are
+  // rebuilt with their own constructor
+  if (
+    !isInstance || routeConfig.constructor === WebliskRoute ||
+    (routeConfig.constructor === WebliskApiRoute && merged.type)
+  ) {
+    return merged;
+  }
+  const RouteClass = routeConfig.constructor as new (
+    config: Partial<WebliskFrameworkRouteConfig>,
+  ) => WebliskRoute;
+  return new RouteClass(merged);
+}
+
+function mergeOptional<T extends object>(
+  base?: T,
+  override?: T,
+): T | undefined {
+  if (!base) return override;
+  if (!override) return base;
+  return { ...base, ...override };
+}
+
+/**
+ * A set of routes sharing a path prefix and defaults
+ */
+export class WebliskRouteGroup {
+  private middleware: Middleware[] = [];
+
+  constructor(
+    private registrar: RouteRegistrar,
+    readonly prefix: string,
+    private options: RouteGroupOptions = {},
+  ) {
+    this.middleware = [...(options.middleware || [])];
+
+    if (options.notFound || options.error) {
+      this.registerErrorPages("/", {
+        notFound: options.notFound,
+        error: options.error,
+      });
+    }
+  }
+
+  /**
+   * Register a route under the group prefix
+   */
+  route(path: string, routeConfig: GroupRouteConfig): WebliskRouteGroup {
+    this.registrar.route(
+      joinRoutePath(this.prefix, path),
+      applyRouteDefaults(routeConfig, this.getDefaults()),
+    );
+    return this;
+  }
+
+  /**
+   * Register error pages under the group prefix (group layout and meta apply)
+   */
+  registerErrorPages(prefix: string, pages: ErrorPageConfigs): void {
+    const { middleware: _middleware, ...defaults } = this.getDefaults();
+    this.registrar.registerErrorPages(joinRoutePath(this.prefix, prefix), {
+      notFound: pages.notFound && applyRouteDefaults(pages.notFound, defaults),
+      error: pages.error && applyRouteDefaults(pages.error, defaults),
+    });
+  }
+
+  /**
+   * Add middleware for every route in the group (including routes
+   * registered before this call)
+   */
+  use(...middleware: Middleware[]): WebliskRouteGroup {
+    this.middleware.push(...middleware);
+    return this;
+  }
+
+  /**
+   * Create a nested group inheriting this group's prefix and defaults
+   */
+  group(
+    prefix: string,
+    options: RouteGroupOptions | ((group: WebliskRouteGroup) => void),
+    define?: (group: WebliskRouteGroup) => void,
+  ): WebliskRouteGroup {
+    const [groupOptions, callback] = typeof options === "function"
+      ? [{}, options]
+      : [options, define];
+    callback?.(new WebliskRouteGroup(this, prefix, groupOptions));
+    return this;
+  }
+
+  /**
+   * Register an API endpoint route in the group
+   */
+  api(
+    path: string,
+    config: Omit<TypedRouteConfig, "type">,
+  ): WebliskRouteGroup {
+    return this.route(path, routeHelpers.api(config));
+  }
+
+  /**
+   * Register a public API route in the group
+   */
+  publicApi(
+    path: string,
+    config: Omit<TypedRouteConfig, "type">,
+  ): WebliskRouteGroup {
+    return this.route(path, routeHelpers.publicApi(config));
+  }
+
+  /**
+   * Register a private API route in the group
+   */
+  privateApi(
+    path: string,
+    config: Omit<TypedRouteConfig, "type">,
+  ): WebliskRouteGroup {
+    return this.route(path, routeHelpers.privateApi(config));
+  }
+
+  /**
+   * Register a static content route in the group
+   */
+  static(
+    path: string,
+    config: Omit<TypedRouteConfig, "type">,
+  ): WebliskRouteGroup {
+    return this.route(path, routeHelpers.static(config));
+  }
+
+  /**
+   * Register a form handling route in the group
+   */
+  form(
+    path: string,
+    config: Omit<TypedRouteConfig, "type">,
+  ): WebliskRouteGroup {
+    return this.route(path, routeHelpers.form(config));
+  }
+
+  /**
+   * Register a real-time route in the group
+   */
+  realtime(
+    path: string,
+    config: Omit<TypedRouteConfig, "type">,
+  ): WebliskRouteGroup {
+    return this.route(path, routeHelpers.realtime(config));
+  }
+
+  /**
+   * Get the defaults applied to routes in this group
+   */
+  private getDefaults(): Omit<RouteGroupOptions, keyof ErrorPageConfigs> {
+    const middleware = this.middleware;
+    const groupMiddleware: Middleware = function group(context, next) {
+      return composeMiddleware(middleware, () => next())(context);
+    };
+
+    const { notFound: _notFound, error: _error, ...defaults } = this.options;
+    return { ...defaults, middleware: [groupMiddleware] };
+  }
+}
@@ -32,12 +32,114 @@ export type { LoaderConfig } from "./loader.ts";
 
 // Route system
 export {
+  json,
+  ROUTE_METHODS,
   type RouteConfig,
+  type RouteHandlerResult,
+  type RouteMethod,
+  type RouteMethodHandler,
+  WebliskApiRoute,
   type WebliskAppConfig,
   type WebliskFrameworkRouteConfig,
   WebliskRoute,
 } from "./routes.ts";
 
+// Router
+export {
+  ROUTE_PARAM_TYPES,
+  type RouteMatch,
+  type RouteSegment,
+  WebliskRouter,
+} from "./router.ts";
+
+// Error pages
+export {
+  describeError,
+  type ErrorPageConfig,
+  type ErrorPageConfigs,
+  ErrorPageRegistry,
+  renderErrorOverlay,
+  type RouteErrorInfo,
+} from "./error-pages.ts";
+
+// Redirects and rewrites
+export {
+  RedirectManager,
+  type RedirectResolution,
+  type RedirectRule,
+  type RedirectRulesConfig,
+  type RewriteRule,
+  type TrailingSlashPolicy,
+} from "./redirects.ts";
+
+// Request parsing
+export {
+  type BodyLimits,
+  createRouteContext,
+  DEFAULT_BODY_LIMITS,
+  parseRequestBody,
+  type RouteContextOptions,
+  WebliskQuery,
+} from "./request.ts";
+
+// Compression
+export {
+  compressBytes,
+  type CompressionConfig,
+  compressResponse,
+  type ContentEncoding,
+  DEFAULT_COMPRESSIBLE_TYPES,
+  isCompressibleType,
+  isEncodingSupported,
+  negotiateEncoding,
+} from "./compression.ts";
+
+// Content negotiation
+export {
+  NEGOTIABLE_TYPES,
+  negotiateMediaType,
+  pickFields,
+  type RouteNegotiationConfig,
+  varyOnAccept,
+} from "./negotiation.ts";
+
+// Streaming
+export { DeferredContent } from "./streaming.ts";
+
+// Static export
+export {
+  exportFilePath,
+  exportStaticSite,
+  type StaticExportOptions,
+  type StaticExportResult,
+  type StaticExportSource,
+} from "./export.ts";
+
+// Response builder
+export { ResponseBuilder } from "./response.ts";
+
+// Route groups
+export {
+  applyRouteDefaults,
+  type GroupRouteConfig,
+  joinRoutePath,
+  type RouteGroupOptions,
+  type RouteRegistrar,
+  WebliskRouteGroup,
+} from "./groups.ts";
+
+// Middleware
+export {
+  composeMiddleware,
+  corsMiddleware,
+  type Middleware,
+  type MiddlewareNext,
+  rateLimitMiddleware,
+  securityHeadersMiddleware,
+  sessionMiddleware,
+  withHeaders,
+} from "./middleware.ts";
+
 // Helper utilities
 export { css, html, js } from "./helpers.ts";
 
@@ -47,6 +149,7 @@ export {
   FileUploadProcessor,
   fileUploadProcessor,
   type FormProcessorConfig,
+  type FormState,
   type FormValidationResult,
   type FormValidationRule,
   type FormValidationRules,
@@ -92,10 +195,155 @@ export {
 // Performance caching system
 export {
   type CacheConfig,
+  type CachedPage,
   type CachedStructure,
   WebliskCache,
   webliskCache,
 } from "./cache.ts";
+export {
+  hashContent,
+  PageCache,
+  type PageCacheConfig,
+  type RouteCachePolicy,
+} from "./page-cache.ts";
+
+// Sitemap and robots.txt
+export {
+  renderRobotsTxt,
+  renderSitemap,
+  renderSitemapIndex,
+  type RobotsRule,
+  type SeoConfig,
+  SITEMAP_URL_LIMIT,
+  type SitemapChangeFrequency,
+  type SitemapEntry,
+  SitemapGenerator,
+  type SitemapRouteOptions,
+} from "./sitemap.ts";
+
+// OpenAPI documentation
+export {
+  type ApiOperationDocs,
+  type JsonSchema,
+  type OpenApiConfig,
+  type OpenApiDocument,
+  OpenApiGenerator,
+  type RouteApiDocs,
+} from "./openapi.ts";
+
+// API versioning
+export {
+  type ApiLifecycle,
+  ApiVersionSet,
+  type ApiVersionStrategy,
+  applyLifecycleHeaders,
+  compareVersions,
+  requestedVersion,
+  versionedPath,
+  type VersioningConfig,
+} from "./versioning.ts";
+
+// Rate limiting
+export {
+  exemptFromRateLimits,
+  isRateLimitExempt,
+  MemoryRateLimitStore,
+  type RateLimitAlgorithm,
+  RateLimiter,
+  rateLimitHeaders,
+  type RateLimitKey,
+  rateLimitKey,
+  type RateLimitPolicy,
+  type RateLimitResult,
+  type RateLimitState,
+  type RateLimitStore,
+} from "./rate-limit.ts";
+
+// API keys
+export {
+  type ApiKeyConfig,
+  type ApiKeyIdentity,
+  apiKeyIdentity,
+  ApiKeyManager,
+  type ApiKeyOptions,
+  type ApiKeyRecord,
+  type ApiKeyStore,
+  canAccessRoute,
+  extractApiKey,
+  FileApiKeyStore,
+  hasScope,
+  MemoryApiKeyStore,
+} from "./api-keys.ts";
+
+// JWT bearer tokens
+export {
+  extractBearerToken,
+  type JwtAlgorithm,
+  type JwtClaims,
+  type JwtConfig,
+  JwtVerifier,
+  signJwt,
+} from "./jwt.ts";
+
+// Route authorization
+export {
+  type AccessPolicy,
+  type AuthConfig,
+  type AuthorizationResult,
+  authorize,
+  type IdentityResolver,
+  loginRedirectUrl,
+  type Principal,
+  principalFromClaims,
+  type RouteAccess,
+} from "./authorization.ts";
+
+// Background jobs
+export {
+  backoffDelay,
+  type BackoffStrategy,
+  type BatchJobOptions,
+  type EnqueueOptions,
+  FileJobStore,
+  type Job,
+  type JobConfig,
+  type JobContext,
+  type JobDefinition,
+  JobQueue,
+  type JobStatus,
+  type JobStore,
+  type JobSummary,
+  jobSummary,
+  MemoryJobStore,
+} from "./jobs.ts";
+
+// Webhooks
+export {
+  type IdempotencyStore,
+  MemoryIdempotencyStore,
+  signWebhookPayload,
+  verifyWebhookSignature,
+  type WebhookDelivery,
+  type WebhookDeliveryStatus,
+  type WebhookEvent,
+  type WebhookHashAlgorithm,
+  WebhookManager,
+  type WebhookOptions,
+} from "./webhooks.ts";
+
+// Access filtering
+export {
+  type AccessDenial,
+  type AccessDenialCode,
+  AccessFilter,
+  type AccessRules,
+  compileUserAgentPattern,
+  type IPAddress,
+  type IPRange,
+  matchesIPRange,
+  parseIP,
+  parseIPRange,
+} from "./access-filter.ts";
 
 // Configuration
 export { type WebliskConfig, WebliskConfigManager } from "./config.ts";
@@ -104,8 +352,13 @@ export { type WebliskConfig, WebliskConfigManager } from "./config.ts";
 export type {
   ComponentContext,
   ComponentDefinition,
+  DeferOptions,
+  DeferredHtml,
   IWebliskFramework,
+  RequestBody,
+  RequestQuery,
   RouteContext,
+  RouteResponse,
   ServerEventMessage,
   WebliskMessage,
   WebSocketConnection,
@@ -122,7 +375,12 @@ export { security } from "./security.ts";
 export { logger } from "./logger.ts";
 
 // Errors
-export { ComponentError, WebliskError } from "./types.ts";
+export {
+  ComponentError,
+  HttpError,
+  RouteDataError,
+  WebliskError,
+} from "./types.ts";
 
 /**
  * Quick start function for simple applications
@@ -0,0 +1,657 @@
+/**
+ * Weblisk Jobs Module
+ * Background job queue: named job types with a handler, worker
+ * concurrency limits, retries with linear or exponential backoff,
+ * persistence behind a pluggable store, status endpoints and progress
+ * updates for the session that submitted a job
+ *
+ * `batch` routes with a `job` option enqueue their POST body and answer
+ * 202 with the job id and status URL; other routes and WebSocket events
+ * call `app.jobs.enqueue()`. The status endpoints (`GET <statusPath>` for
+ * the session's jobs, `GET`/`DELETE <statusPath>/<id>`) only show a session
+ * its own jobs (jobs enqueued without one only with `public: true`), and
+ * every change is pushed to that session as a `job-update` WebSocket
+ * message.
+ */
+
+import { dirname } from "@std/path";
+import { logger } from "./logger.ts";
+import type { SLAConfig } from "./route-types.ts";
+import { json, WebliskApiRoute } from "./routes.ts";
+import { HttpError, type RouteContext, WebliskError } from "./types.ts";
+
+export type JobStatus =
+  | "queued"
+  | "running"
+  | "completed"
+  | "failed"
+  | "cancelled";
+
+export type BackoffStrategy = NonNullable<
+  NonNullable<SLAConfig["recovery"]>["backoffStrategy"]
+>;
+
+export interface JobConfig {
+  concurrency: number; // Jobs running at once across all job types
+  retries: number; // Extra attempts after a failure
+  retryDelay: number; // Milliseconds before the first retry
+  maxRetryDelay: number; // Upper bound for backoff delays (milliseconds)
+  backoffStrategy: BackoffStrategy;
+  retention: number; // Seconds finished jobs are kept
+  statusPath: string; // Status endpoints ("" to disable)
+  storePath?: string; // JSON file holding the jobs (default: in memory)
+}
+
+export interface Job<T = unknown> {
+  id: string;
+  name: string; // Job type
+  data: T;
+  status: JobStatus;
+  progress: number; // 0-100
+  message?: string; // Latest progress message
+  result?: unknown; // Handler return value
+  error?: string; // Last failure
+  attempts: number;
+  maxAttempts: number;
+  sessionId?: string; // Session that receives progress updates
+  public?: boolean; // Any client may see and cancel it (jobs without a session)
+  createdAt: number; // Epoch milliseconds
+  updatedAt: number;
+  runAt: number; // Earliest start (delayed jobs and retries)
+  startedAt?: number;
+  finishedAt?: number;
+}
+
+/**
+ * What status endpoints and progress messages show of a job
+ */
+export type JobSummary = Omit<Job, "data">;
+
+export interface JobContext {
+  job: Readonly<Job>;
+  attempt: number; // 1 for the first attempt
+  progress(percent: number, message?: string): Promise<void>;
+  signal: AbortSignal; // Aborted when the job is cancelled
+}
+
+// deno-lint-ignore no-explicit-any
+export interface JobDefinition<T = any> {
+  handler: (data: T, context: JobContext) => unknown;
+  concurrency?: number; // Limit for this job type (within the queue's)
+  retries?: number;
+  retryDelay?: number;
+  backoffStrategy?: BackoffStrategy;
+}
+
+/**
+ * Job options of a `batch` route; the job type defaults to the route path
+ */
+export interface BatchJobOptions extends JobDefinition {
+  name?: string;
+}
+
+export interface EnqueueOptions {
+  sessionId?: string;
+  public?: boolean; // Expose a job without a session on the status endpoints
+  delay?: number; // Milliseconds before the job may start
+  retries?: number;
+}
+
+/**
+ * Where jobs live; implement it over a database or KV store to keep
+ * queues across deployments
+ */
+export interface JobStore {
+  get(id: string): Promise<Job | undefined>;
+  save(job: Job): Promise<void>;
+  delete(id: string): Promise<boolean>;
+  list(): Promise<Job[]>;
+}
+
+/**
+ * In-process store (the default)
+ */
+export class MemoryJobStore implements JobStore {
+  protected jobs: Map<string, Job> = new Map();
+
+  get(id: string): Promise<Job | undefined> {
+    const job = this.jobs.get(id);
+    return Promise.resolve(job && { ...job });
+  }
+
+  save(job: Job): Promise<void> {
+    this.jobs.set(job.id, { ...job });
+    return Promise.resolve();
+  }
+
+  delete(id: string): Promise<boolean> {
+    return Promise.resolve(this.jobs.delete(id));
+  }
+
+  list(): Promise<Job[]> {
+    return Promise.resolve(
+      Array.from(this.jobs.values(), (job) => ({ ...job })),
+    );
+  }
+}
+
+/**
+ * Store kept in a JSON file, loaded on first use and rewritten after each
+ * change (needs --allow-read and --allow-write for the file)
+ */
+export class FileJobStore extends MemoryJobStore {
+  private loaded?: Promise<void>;
+  private writing: Promise<void> = Promise.resolve();
+
+  constructor(private path: string) {
+    super();
+  }
+
+  override async get(id: string): Promise<Job | undefined> {
+    await this.load();
+    return super.get(id);
+  }
+
+  override async save(job: Job): Promise<void> {
+    await this.load();
+    await super.save(job);
+    await this.persist();
+  }
+
+  override async delete(id: string): Promise<boolean> {
+    await this.load();
+    const deleted = await super.delete(id);
+    if (deleted) await this.persist();
+    return deleted;
+  }
+
+  override async list(): Promise<Job[]> {
+    await this.load();
+    return super.list();
+  }
+
+  private load(): Promise<void> {
+    return this.loaded ??= (async () => {
+      try {
+        const jobs = JSON.parse(await Deno.readTextFile(this.path)) as Job[];
+        for (const job of jobs) this.jobs.set(job.id, job);
+      } catch (error) {
+        if (!(error instanceof Deno.errors.NotFound)) {
+          this.loaded = undefined;
+          throw new WebliskError(
+            `Failed to read job store ${this.path}`,
+            "JOB_STORE_ERROR",
+            {
+              path: this.path,
+              error: error instanceof Error ? error.message : String(error),
+            },
+          );
+        }
+      }
+    })();
+  }
+
+  /**
+   * Write to a temporary file and rename it, one write at a time (progress
+   * updates of concurrent jobs save in quick succession)
+   */
+  private persist(): Promise<void> {
+    const write = async () => {
+      const temporary = `${this.path}.tmp`;
+      await Deno.mkdir(dirname(this.path), { recursive: true });
+      await Deno.writeTextFile(
+        temporary,
+        JSON.stringify(Array.from(this.jobs.values()), null, 2),
+        { mode: 0o600 },
+      );
+      await Deno.rename(temporary, this.path);
+    };
+    this.writing = this.writing.then(write, write);
+    return this.writing;
+  }
+}
+
+/**
+ * Delay before retrying after the given (1-based) failed attempt
+ */
+export function backoffDelay(
+  strategy: BackoffStrategy,
+  baseDelay: number,
+  attempt: number,
+  maxDelay = Infinity,
+): number {
+  const delay = strategy === "linear"
+    ? baseDelay * attempt
+    : baseDelay * 2 ** (attempt - 1);
+  return Math.min(delay, maxDelay);
+}
+
+export function jobSummary(job: Job): JobSummary {
+  const { data: _data, ...summary } = job;
+  return summary;
+}
+
+const FINISHED: JobStatus[] = ["completed", "failed", "cancelled"];
+
+/**
+ * Longest delay setTimeout honours (longer ones fire immediately); jobs
+ * due later are picked up by re-checking when it elapses
+ */
+const MAX_TIMER_DELAY = 2 ** 31 - 1;
+
+/**
+ * Runs queued jobs in the background
+ */
+export class JobQueue {
+  // deno-lint-ignore no-explicit-any
+  private definitions = new Map<string, JobDefinition<any>>();
+  private running = new Map<
+    string,
+    { job: Job; controller: AbortController; task: Promise<void> }
+  >();
+  private listeners = new Set<(job: JobSummary) => void>();
+  private pumping: Promise<void> = Promise.resolve();
+  private timer?: { id: number; done: Promise<void>; resolve: () => void };
+  private stopped = false;
+
+  constructor(
+    public store: JobStore = new MemoryJobStore(),
+    private config: Omit<JobConfig, "storePath"> = {
+      concurrency: 4,
+      retries: 3,
+      retryDelay: 1000,
+      maxRetryDelay: 5 * 60 * 1000,
+      backoffStrategy: "exponential",
+      retention: 24 * 60 * 60,
+      statusPath: "/jobs",
+    },
+  ) {}
+
+  /**
+   * Register the handler for a job type; stored jobs of that type start
+   * once it is defined
+   */
+  // deno-lint-ignore no-explicit-any
+  define<T = any>(name: string, definition: JobDefinition<T>): JobQueue {
+    this.definitions.set(name, definition);
+    this.schedule();
+    return this;
+  }
+
+  /**
+   * Queue a job; returns it with its id and status
+   */
+  async enqueue<T>(
+    name: string,
+    data: T,
+    options: EnqueueOptions = {},
+  ): Promise<Job<T>> {
+    const definition = this.definitions.get(name);
+    if (!definition) {
+      throw new WebliskError(`Unknown job type: ${name}`, "UNKNOWN_JOB", {
+        name,
+      });
+    }
+
+    const now = Date.now();
+    const retries = options.retries ?? definition.retries ??
+      this.config.retries;
+    const job: Job<T> = {
+      id: crypto.randomUUID(),
+      name,
+      data,
+      status: "queued",
+      progress: 0,
+      attempts: 0,
+      maxAttempts: 1 + retries,
+      ...(options.sessionId ? { sessionId: options.sessionId } : {}),
+      ...(options.public && !options.sessionId ? { public: true } : {}),
+      createdAt: now,
+      updatedAt: now,
+      runAt: now + (options.delay ?? 0),
+    };
+
+    await this.update(job);
+    this.schedule();
+    return job;
+  }
+
+  get(id: string): Promise<Job | undefined> {
+    return this.store.get(id);
+  }
+
+  /**
+   * Jobs, oldest first (optionally only one session's)
+   */
+  async list(filter: { sessionId?: string; name?: string } = {}): Promise<
+    Job[]
+  > {
+    return (await this.store.list())
+      .filter((job) =>
+        (!filter.sessionId || job.sessionId === filter.sessionId) &&
+        (!filter.name || job.name === filter.name)
+      )
+      .sort((a, b) => a.createdAt - b.createdAt);
+  }
+
+  /**
+   * Cancel a queued or running job (a running handler sees its signal
+   * aborted and its result is discarded); null when the job does not
+   * exist or has already finished
+   */
+  async cancel(id: string): Promise<Job | null> {
+    const job = this.running.get(id)?.job ?? await this.store.get(id);
+    if (!job || FINISHED.includes(job.status)) return null;
+
+    job.status = "cancelled";
+    job.finishedAt = Date.now();
+    this.running.get(id)?.controller.abort();
+    await this.update(job);
+    this.schedule(); // Drops the timer of a delayed job
+    return job;
+  }
+
+  /**
+   * Called with a summary of a job after every change
+   */
+  onUpdate(listener: (job: JobSummary) => void): () => void {
+    this.listeners.add(listener);
+    return () => this.listeners.delete(listener);
+  }
+
+  /**
+   * Route handler for a `batch` route: queues the request body as a job
+   * of the given type
+   */
+  createHandler(name: string): (context: RouteContext) => Promise<Response> {
+    return async (context) => {
+      const data = context.body ? await context.body() : {};
+      const job = await this.enqueue(name, data, {
+        sessionId: context.sessionId,
+      });
+      const statusUrl = this.config.statusPath
+        ? `${this.config.statusPath}/${job.id}`
+        : undefined;
+      return json(
+        { id: job.id, status: job.status, ...(statusUrl ? { statusUrl } : {}) },
+        {
+          status: 202,
+          headers: statusUrl ? { "Location": statusUrl } : {},
+        },
+      );
+    };
+  }
+
+  /**
+   * Serve the status endpoints; null for other paths
+   */
+  async handle(
+    request: Request,
+    sessionId: string | null,
+  ): Promise<Response | null> {
+    const { statusPath } = this.config;
+    // routing.trailingSlash "always" redirects /jobs/<id> to /jobs/<id>/
+    const pathname = new URL(request.url).pathname.replace(/(.)\/$/, "$1");
+    if (!statusPath || !pathname.startsWith(statusPath)) return null;
+
+    if (pathname === statusPath) {
+      if (request.method !== "GET") return JobQueue.methodNotAllowed(["GET"]);
+      const jobs = sessionId ? await this.list({ sessionId }) : [];
+      return json({ jobs: jobs.map(jobSummary) });
+    }
+
+    const id = pathname.slice(statusPath.length + 1);
+    if (pathname[statusPath.length] !== "/" || !id || id.includes("/")) {
+      return null;
+    }
+
+    try {
+      return await this.respond(request, decodeURIComponent(id), sessionId);
+    } catch (error) {
+      return WebliskApiRoute.errorResponse(error);
+    }
+  }
+
+  private async respond(
+    request: Request,
+    id: string,
+    sessionId: string | null,
+  ): Promise<Response> {
+    // A session only sees its own jobs; jobs without one stay hidden
+    // unless enqueued as public
+    const job = await this.store.get(id);
+    const visible = job?.sessionId
+      ? job.sessionId === sessionId
+      : job?.public === true;
+    if (!job || !visible) {
+      throw new HttpError("Job not found", 404, "JOB_NOT_FOUND");
+    }
+
+    if (request.method === "GET") return json(jobSummary(job));
+    if (request.method === "DELETE") {
+      const cancelled = await this.cancel(job.id);
+      if (!cancelled) {
+        throw new HttpError(
+          `Job already ${job.status}`,
+          409,
+          "JOB_FINISHED",
+        );
+      }
+      return json(jobSummary(cancelled));
+    }
+    return JobQueue.methodNotAllowed(["GET", "DELETE"]);
+  }
+
+  /**
+   * Wait until no job is running or waiting for a retry (tests, graceful
+   * shutdown of short-lived scripts)
+   */
+  async settle(): Promise<void> {
+    await this.pumping;
+    while (this.running.size > 0 || this.timer) {
+      if (this.running.size > 0) {
+        await Promise.allSettled(
+          Array.from(this.running.values(), ({ task }) => task),
+        );
+      } else {
+        await this.timer?.done;
+      }
+      await this.pumping;
+    }
+  }
+
+  /**
+   * Queue jobs again that were running when a previous process stopped
+   * (`app.start()` calls it)
+   */
+  async restore(): Promise<number> {
+    let restored = 0;
+    for (const job of await this.store.list()) {
+      if (job.status === "running" && !this.running.has(job.id)) {
+        job.status = "queued";
+        job.runAt = Date.now();
+        await this.update(job);
+        restored++;
+      }
+    }
+    if (restored > 0) this.schedule();
+    return restored;
+  }
+
+  /**
+   * Stop starting jobs and wait for running ones; queued jobs stay in the
+   * store for the next start
+   */
+  async stop(): Promise<void> {
+    this.stopped = true;
+    this.clearTimer();
+    await Promise.allSettled(
+      Array.from(this.running.values(), ({ task }) => task),
+    );
+  }
+
+  private static methodNotAllowed(allowedMethods: string[]): Response {
+    const response = WebliskApiRoute.errorResponse(
+      new HttpError("Method Not Allowed", 405, "METHOD_NOT_ALLOWED"),
+    );
+    response.headers.set("Allow", allowedMethods.join(", "));
+    return response;
+  }
+
+  /**
+   * Queue a pass over the store; passes run one at a time so a job is
+   * never started twice
+   */
+  private schedule(): void {
+    this.pumping = this.pumping.then(() => this.pump()).catch((error) => {
+      logger.error(
+        "Job queue failed",
+        error instanceof Error ? error : new Error(String(error)),
+      );
+    });
+  }
+
+  private async pump(): Promise<void> {
+    if (this.stopped) return;
+    const now = Date.now();
+    const jobs = await this.store.list();
+
+    const expired = now - this.config.retention * 1000;
+    for (const job of jobs) {
+      if (FINISHED.includes(job.status) && (job.finishedAt ?? 0) < expired) {
+        await this.store.delete(job.id);
+      }
+    }
+
+    let nextRun = Infinity;
+    const queued = jobs
+      .filter((job) => job.status === "queued" && !this.running.has(job.id))
+      .sort((a, b) => a.runAt - b.runAt || a.createdAt - b.createdAt);
+    for (const job of queued) {
+      if (this.running.size >= this.config.concurrency) break;
+      const definition = this.definitions.get(job.name);
+      if (!definition) continue;
+      if (job.runAt > now) {
+        nextRun = Math.min(nextRun, job.runAt);
+        continue;
+      }
+      const active = Array.from(this.running.values())
+        .filter((entry) => entry.job.name === job.name).length;
+      if (active >= (definition.concurrency ?? Infinity)) continue;
+      this.start(job, definition);
+    }
+
+    this.clearTimer();
+    if (nextRun !== Infinity) {
+      const { promise, resolve } = Promise.withResolvers<void>();
+      const id = setTimeout(() => {
+        this.timer = undefined;
+        this.schedule();
+        resolve();
+      }, Math.min(nextRun - now, MAX_TIMER_DELAY));
+      this.timer = { id, done: promise, resolve };
+    }
+  }
+
+  /**
+   * Cancel the retry timer, releasing anyone waiting on it
+   */
+  private clearTimer(): void {
+    if (!this.timer) return;
+    clearTimeout(this.timer.id);
+    this.timer.resolve();
+    this.timer = undefined;
+  }
+
+  private start(job: Job, definition: JobDefinition): void {
+    const controller = new AbortController();
+    const task = this.run(job, definition, controller.signal)
+      .catch((error) => {
+        logger.error(
+          "Job bookkeeping failed",
+          error instanceof Error ? error : new Error(String(error)),
+          { job: job.id, name: job.name },
+        );
+      })
+      .finally(() => {
+        this.running.delete(job.id);
+        this.schedule();
+      });
+    this.running.set(job.id, { job, controller, task });
+  }
+
+  private async run(
+    job: Job,
+    definition: JobDefinition,
+    signal: AbortSignal,
+  ): Promise<void> {
+    // The job may have been cancelled since the queue listed it
+    const stored = await this.store.get(job.id);
+    if (signal.aborted || stored?.status !== "queued") return;
+
+    job.status = "running";
+    job.attempts++;
+    job.startedAt ??= Date.now();
+    await this.update(job);
+
+    const context: JobContext = {
+      job,
+      attempt: job.attempts,
+      progress: async (percent, message) => {
+        if (signal.aborted) return;
+        job.progress = Math.max(0, Math.min(100, percent));
+        if (message !== undefined) job.message = message;
+        await this.update(job);
+      },
+      signal,
+    };
+
+    try {
+      const result = await definition.handler(job.data, context);
+      if (signal.aborted) return;
+      job.status = "completed";
+      job.progress = 100;
+      job.result = result;
+      job.error = undefined;
+      job.finishedAt = Date.now();
+    } catch (error) {
+      if (signal.aborted) return;
+      job.error = error instanceof Error ? error.message : String(error);
+      if (job.attempts < job.maxAttempts) {
+        job.status = "queued";
+        job.runAt = Date.now() + backoffDelay(
+          definition.backoffStrategy ?? this.config.backoffStrategy,
+          definition.retryDelay ?? this.config.retryDelay,
+          job.attempts,
+          this.config.maxRetryDelay,
+        );
+      } else {
+        job.status = "failed";
+        job.finishedAt = Date.now();
+        logger.error(
+          "Job failed",
+          error instanceof Error ? error : new Error(job.error),
+          { job: job.id, name: job.name, attempts: job.attempts },
+        );
+      }
+    }
+    await this.update(job);
+  }
+
+  private async update(job: Job): Promise<void> {
+    job.updatedAt = Date.now();
+    await this.store.save(job);
+
+    const summary = jobSummary(job);
+    for (const listener of this.listeners) {
+      try {
+        listener(summary);
+      } catch (error) {
+        logger.warn("Job update listener failed", {
+          job: job.id,
+          error: error instanceof Error ? error.message : String(error),
+        });
+      }
+    }
+  }
+}
@@ -0,0 +1,458 @@
+/**
+ * Weblisk JWT Module
+ * JSON Web Token verification with WebCrypto (HS256, RS256, ES256):
+ * signature, issuer, audience, expiry and not-before checks with clock skew
+ * tolerance, and public keys from a JWKS URL, a local JWKS file or inline
+ *
+ * Routes opt in with `advanced.security.jwtValidation`; verified claims are
+ * exposed as `context.claims`. WebSocket upgrades are verified the same way
+ * (browsers cannot set headers there, so the token may also come in a query
+ * parameter) and the claims stay with the connection for realtime events.
+ */
+
+import { HttpError } from "./types.ts";
+import { logger } from "./logger.ts";
+
+export type JwtAlgorithm = "HS256" | "RS256" | "ES256";
+
+export interface JwtConfig {
+  algorithms: JwtAlgorithm[]; // Accepted `alg` values
+  secret?: string; // HS256 shared secret
+  jwksUrl?: string; // Remote JWKS (e.g. https://issuer/.well-known/jwks.json)
+  jwksPath?: string; // Local JWKS file, also the stand-in when jwksUrl fails
+  keys?: JsonWebKey[]; // Inline public keys
+  jwksCacheTtl: number; // Seconds a loaded JWKS is reused
+  issuer?: string | string[];
+  audience?: string | string[];
+  clockSkew: number; // Seconds of tolerance for exp, nbf and iat
+  requireExpiry: boolean; // Refuse tokens without `exp`
+  webSocketQueryParam: string; // Token query parameter on /ws upgrades
+  requireForWebSocket: boolean; // Refuse /ws upgrades without a valid token
+}
+
+export interface JwtClaims {
+  iss?: string;
+  sub?: string;
+  aud?: string | string[];
+  exp?: number;
+  nbf?: number;
+  iat?: number;
+  jti?: string;
+  [claim: string]: unknown;
+}
+
+interface JwtHeader {
+  alg?: string;
+  kid?: string;
+  typ?: string;
+}
+
+const ALGORITHMS: Record<
+  JwtAlgorithm,
+  {
+    import: RsaHashedImportParams | EcKeyImportParams | HmacImportParams;
+    verify: AlgorithmIdentifier | EcdsaParams;
+    kty: string;
+  }
+> = {
+  HS256: {
+    import: { name: "HMAC", hash: "SHA-256" },
+    verify: "HMAC",
+    kty: "oct",
+  },
+  RS256: {
+    import: { name: "RSASSA-PKCS1-v1_5", hash: "SHA-256" },
+    verify: "RSASSA-PKCS1-v1_5",
+    kty: "RSA",
+  },
+  ES256: {
+    import: { name: "ECDSA", namedCurve: "P-256" },
+    verify: { name: "ECDSA", hash: "SHA-256" },
+    kty: "EC",
+  },
+};
+
+/**
+ * A JWKS URL is not asked again for an unknown `kid` more often than this
+ */
+const JWKS_REFRESH_INTERVAL = 30 * 1000;
+
+/**
+ * After a failed JWKS load the previous keys stay in use and the load is
+ * retried no sooner than this
+ */
+const JWKS_RETRY_DELAY = 1000;
+
+function base64UrlEncode(bytes: Uint8Array): string {
+  return btoa(String.fromCharCode(...bytes))
+    .replace(/\+/g, "-").replace(/\//g, "_").replace(/=+$/, "");
+}
+
+function base64UrlDecode(value: string): Uint8Array<ArrayBuffer> {
+  const base64 = value.replace(/-/g, "+").replace(/_/g, "/");
+  const binary = atob(base64.padEnd(Math.ceil(base64.length / 4) * 4, "="));
+  return Uint8Array.from(binary, (char) => char.charCodeAt(0));
+}
+
+function invalidToken(message: string, code = "INVALID_TOKEN"): HttpError {
+  return new HttpError(message, 401, code);
+}
+
+/**
+ * Public members of a JWK (private parts would import as a signing key)
+ */
+function publicJwk(jwk: JsonWebKey): JsonWebKey {
+  const { kty, n, e, crv, x, y, k } = jwk;
+  return Object.fromEntries(
+    Object.entries({ kty, n, e, crv, x, y, k })
+      .filter(([, value]) => value !== undefined),
+  ) as JsonWebKey;
+}
+
+/**
+ * Read the bearer token from the Authorization header, or from the query
+ * parameter when one is given
+ */
+export function extractBearerToken(
+  request: Request,
+  queryParam?: string,
+): string | null {
+  const match = request.headers.get("Authorization")?.match(
+    /^Bearer\s+(\S+)$/i,
+  );
+  if (match) return match[1];
+  if (queryParam) {
+    return new URL(request.url).searchParams.get(queryParam) || null;
+  }
+  return null;
+}
+
+/**
+ * Sign a token (HS256 with a string secret, RS256/ES256 with a private
+ * CryptoKey); `expiresIn` sets `exp` in seconds from now
+ */
+export async function signJwt(
+  claims: JwtClaims,
+  key: string | CryptoKey,
+  options: { algorithm?: JwtAlgorithm; kid?: string; expiresIn?: number } = {},
+): Promise<string> {
+  const algorithm = options.algorithm ?? "HS256";
+  const now = Math.floor(Date.now() / 1000);
+  const encoder = new TextEncoder();
+
+  const header = base64UrlEncode(encoder.encode(JSON.stringify({
+    alg: algorithm,
+    typ: "JWT",
+    ...(options.kid ? { kid: options.kid } : {}),
+  })));
+  const payload = base64UrlEncode(encoder.encode(JSON.stringify({
+    iat: now,
+    ...(options.expiresIn !== undefined
+      ? { exp: now + options.expiresIn }
+      : {}),
+    ...claims,
+  })));
+
+  const signingKey = typeof key === "string"
+    ? await crypto.subtle.importKey(
+      "raw",
+      encoder.encode(key),
+      ALGORITHMS.HS256.import,
+      false,
+      ["sign"],
+    )
+    : key;
+  const signature = await crypto.subtle.sign(
+    ALGORITHMS[algorithm].verify,
+    signingKey,
+    encoder.encode(`${header}.${payload}`),
+  );
+
+  return `${header}.${payload}.${base64UrlEncode(new Uint8Array(signature))}`;
+}
+
+/**
+ * Verifies tokens against the configured keys and claim rules
+ */
+export class JwtVerifier {
+  private jwks?: { keys: JsonWebKey[]; loadedAt: number };
+  private jwksLoading?: Promise<JsonWebKey[] | null>;
+  private jwksRetryAt = 0;
+  private importedKeys = new Map<string, CryptoKey>();
+
+  constructor(private config: JwtConfig) {}
+
+  /**
+   * Whether any key source is configured
+   */
+  isConfigured(): boolean {
+    return !!(this.config.secret || this.config.jwksUrl ||
+      this.config.jwksPath || this.config.keys?.length);
+  }
+
+  getConfig(): JwtConfig {
+    return this.config;
+  }
+
+  /**
+   * Verify a token and return its claims; throws a 401 HttpError
+   * (INVALID_TOKEN, INVALID_SIGNATURE, TOKEN_EXPIRED, ...) otherwise
+   */
+  async verify(token: string): Promise<JwtClaims> {
+    const parts = token.split(".");
+    if (parts.length !== 3) throw invalidToken("Malformed token");
+
+    let header: JwtHeader;
+    let claims: JwtClaims;
+    let signature: Uint8Array<ArrayBuffer>;
+    try {
+      header = JSON.parse(new TextDecoder().decode(base64UrlDecode(parts[0])));
+      claims = JSON.parse(new TextDecoder().decode(base64UrlDecode(parts[1])));
+      signature = base64UrlDecode(parts[2]);
+    } catch {
+      throw invalidToken("Malformed token");
+    }
+    if (
+      !header || typeof header !== "object" || Array.isArray(header) ||
+      !claims || typeof claims !== "object" || Array.isArray(claims)
+    ) {
+      throw invalidToken("Malformed token");
+    }
+
+    const algorithm = header.alg as JwtAlgorithm;
+    if (!this.config.algorithms.includes(algorithm)) {
+      throw invalidToken(
+        `Token algorithm ${header.alg} is not accepted`,
+        "UNSUPPORTED_ALGORITHM",
+      );
+    }
+
+    const keys = await this.getKeys(algorithm, header.kid);
+    if (keys.length === 0) {
+      throw invalidToken("No key is available to verify the token");
+    }
+
+    const data = new TextEncoder().encode(`${parts[0]}.${parts[1]}`);
+    let valid = false;
+    for (const key of keys) {
+      try {
+        valid = await crypto.subtle.verify(
+          ALGORITHMS[algorithm].verify,
+          key,
+          signature,
+          data,
+        );
+      } catch {
+        valid = false;
+      }
+      if (valid) break;
+    }
+    if (!valid) {
+      throw invalidToken("Token signature is invalid", "INVALID_SIGNATURE");
+    }
+
+    this.checkClaims(claims);
+    return claims;
+  }
+
+  /**
+   * Check expiry, not-before, issue time, issuer and audience
+   */
+  private checkClaims(claims: JwtClaims): void {
+    const now = Date.now() / 1000;
+    const skew = this.config.clockSkew;
+
+    if (claims.exp === undefined) {
+      if (this.config.requireExpiry) {
+        throw invalidToken("Token has no expiry");
+      }
+    } else if (typeof claims.exp !== "number" || claims.exp + skew <= now) {
+      throw invalidToken("Token has expired", "TOKEN_EXPIRED");
+    }
+    if (
+      claims.nbf !== undefined &&
+      (typeof claims.nbf !== "number" || claims.nbf - skew > now)
+    ) {
+      throw invalidToken("Token is not valid yet", "TOKEN_NOT_YET_VALID");
+    }
+    if (
+      claims.iat !== undefined &&
+      (typeof claims.iat !== "number" || claims.iat - skew > now)
+    ) {
+      throw invalidToken("Token was issued in the future");
+    }
+
+    const issuers = [this.config.issuer ?? []].flat();
+    if (issuers.length > 0 && !issuers.includes(claims.iss ?? "")) {
+      throw invalidToken("Token issuer is not accepted", "INVALID_ISSUER");
+    }
+
+    const audiences = [this.config.audience ?? []].flat();
+    const tokenAudiences = [claims.aud ?? []].flat();
+    if (
+      audiences.length > 0 &&
+      !tokenAudiences.some((audience) => audiences.includes(audience))
+    ) {
+      throw invalidToken(
+        "Token audience is not accepted",
+        "INVALID_AUDIENCE",
+      );
+    }
+  }
+
+  /**
+   * Candidate verification keys for an algorithm (and key id, if the
+   * token names one)
+   */
+  private async getKeys(
+    algorithm: JwtAlgorithm,
+    kid?: string,
+  ): Promise<CryptoKey[]> {
+    if (algorithm === "HS256" && this.config.secret) {
+      return [
+        await this.importKey(algorithm, "secret", () =>
+          crypto.subtle.importKey(
+            "raw",
+            new TextEncoder().encode(this.config.secret),
+            ALGORITHMS.HS256.import,
+            false,
+            ["verify"],
+          )),
+      ];
+    }
+
+    const matching = (keys: JsonWebKey[]) =>
+      keys.filter((jwk) => {
+        const { kid: keyId, use } = jwk as JsonWebKey & {
+          kid?: string;
+          use?: string;
+        };
+        return jwk.kty === ALGORITHMS[algorithm].kty &&
+          (!jwk.alg || jwk.alg === algorithm) &&
+          (!use || use === "sig") &&
+          (!kid || keyId === kid) &&
+          (algorithm !== "ES256" || jwk.crv === "P-256");
+      });
+
+    let jwks = matching(await this.loadJwks());
+    if (jwks.length === 0 && kid && this.config.jwksUrl) {
+      // The issuer may have rotated keys since the JWKS was cached
+      jwks = matching(await this.loadJwks(true));
+    }
+
+    // A key the issuer published incorrectly is skipped, not fatal
+    const keys = await Promise.all(jwks.map(async (jwk) => {
+      const id = JSON.stringify(publicJwk(jwk));
+      try {
+        return await this.importKey(
+          algorithm,
+          id,
+          () =>
+            crypto.subtle.importKey(
+              "jwk",
+              publicJwk(jwk),
+              ALGORITHMS[algorithm].import,
+              false,
+              ["verify"],
+            ),
+        );
+      } catch (error) {
+        logger.warn("Skipping a JWK that cannot be imported", {
+          kid: (jwk as { kid?: string }).kid,
+          error: error instanceof Error ? error.message : String(error),
+        });
+        return null;
+      }
+    }));
+    return keys.filter((key): key is CryptoKey => key !== null);
+  }
+
+  private async importKey(
+    algorithm: JwtAlgorithm,
+    id: string,
+    load: () => Promise<CryptoKey>,
+  ): Promise<CryptoKey> {
+    const cacheKey = `${algorithm}:${id}`;
+    let key = this.importedKeys.get(cacheKey);
+    if (!key) {
+      key = await load();
+      this.importedKeys.set(cacheKey, key);
+    }
+    return key;
+  }
+
+  /**
+   * Inline keys plus the JWKS from the URL (falling back to the local
+   * file when the URL cannot be reached) or the local file
+   */
+  private async loadJwks(refresh = false): Promise<JsonWebKey[]> {
+    const inline = this.config.keys || [];
+    if (!this.config.jwksUrl && !this.config.jwksPath) return inline;
+
+    const now = Date.now();
+    const age = this.jwks ? now - this.jwks.loadedAt : Infinity;
+    const stale = age >= this.config.jwksCacheTtl * 1000 ||
+      (refresh && age >= JWKS_REFRESH_INTERVAL);
+    if (this.jwks && !stale) return [...inline, ...this.jwks.keys];
+    if (now < this.jwksRetryAt) return [...inline, ...(this.jwks?.keys ?? [])];
+
+    this.jwksLoading ??= this.fetchJwks().finally(() => {
+      this.jwksLoading = undefined;
+    });
+    const keys = await this.jwksLoading;
+    if (keys) {
+      this.jwks = { keys, loadedAt: Date.now() };
+    } else {
+      this.jwksRetryAt = Date.now() + JWKS_RETRY_DELAY;
+    }
+    return [...inline, ...(keys ?? this.jwks?.keys ?? [])];
+  }
+
+  /**
+   * The loaded keys, or null when neither source could be read
+   */
+  private async fetchJwks(): Promise<JsonWebKey[] | null> {
+    if (this.config.jwksUrl) {
+      try {
+        const response = await fetch(this.config.jwksUrl, {
+          signal: AbortSignal.timeout(5000),
+        });
+        if (!response.ok) throw new Error(`HTTP ${response.status}`);
+        return JwtVerifier.parseJwks(await response.json());
+      } catch (error) {
+        if (!this.config.jwksPath) {
+          logger.error(
+            "Failed to load JWKS",
+            error instanceof Error ? error : new Error(String(error)),
+            { url: this.config.jwksUrl },
+          );
+          return null;
+        }
+        logger.warn("JWKS URL unreachable, using the local JWKS file", {
+          url: this.config.jwksUrl,
+          path: this.config.jwksPath,
+          error: error instanceof Error ? error.message : String(error),
+        });
+      }
+    }
+
+    try {
+      return JwtVerifier.parseJwks(
+        JSON.parse(await Deno.readTextFile(this.config.jwksPath!)),
+      );
+    } catch (error) {
+      logger.error(
+        "Failed to read JWKS file",
+        error instanceof Error ? error : new Error(String(error)),
+        { path: this.config.jwksPath },
+      );
+      return null;
+    }
+  }
+
+  private static parseJwks(jwks: unknown): JsonWebKey[] {
+    const keys = (jwks as { keys?: unknown })?.keys;
+    if (!Array.isArray(keys)) throw new Error("JWKS has no keys array");
+    return keys as JsonWebKey[];
+  }
+}
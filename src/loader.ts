@@ -7,6 +7,7 @@ import { join, resolve } from "@std/path";
 import { WebliskFramework } from "./weblisk.ts";
 import { type RouteConfig, type RouteContext, WebliskRoute } from "./routes.ts";
 import { WebliskLogger } from "./logger.ts";
+import type { RedirectRulesConfig } from "./redirects.ts";
 // import type { webSocketManager } from "./websockets.ts";
 import {
   componentRegistry,
@@ -79,6 +80,7 @@ export class WebliskLoader {
 
     try {
       // Load in optimal order for dependency resolution
+      await this.loadRedirects();
       await this.loadComponents();
       await this.loadPages();
       await this.loadStatic();
@@ -93,6 +95,35 @@ export class WebliskLoader {
     }
   }
 
+  /**
+   * Load redirect/rewrite rules from redirects.json in the base path
+   * The file holds either an array of redirects or
+   * `{ redirects, rewrites, trailingSlash }`
+   */
+  async loadRedirects() {
+    const redirectsPath = join(this.config.basePath!, "redirects.json");
+
+    let content: string;
+    try {
+      content = await Deno.readTextFile(redirectsPath);
+    } catch (error) {
+      if (error instanceof Deno.errors.NotFound) return;
+      throw error;
+    }
+
+    const parsed = JSON.parse(content);
+    const rules: RedirectRulesConfig = Array.isArray(parsed)
+      ? { redirects: parsed }
+      : parsed;
+    this.app.configureRedirects(rules);
+
+    this.logger.info(`Loaded redirects from ${redirectsPath}`, {
+      redirects: rules.redirects?.length || 0,
+      rewrites: rules.rewrites?.length || 0,
+      trailingSlash: rules.trailingSlash || "ignore",
+    });
+  }
+
   /**
    * Load all components from both components and layouts directories
    */
@@ -389,6 +420,7 @@ export class WebliskLoader {
    * - pages/about.ts -> /about
    * - pages/blog/post.ts -> /blog/post
    * - pages/api/users/[id].ts -> /api/users/:id
+   * - pages/docs/[...path].ts -> /docs/*path
    */
   private filePathToRoute(filePath: string): string {
     const basePath = join(this.config.basePath!, this.config.pagesPath!);
@@ -402,6 +434,9 @@ export class WebliskLoader {
       route = route.replace("/index", "") || "/";
     }
 
+    // Handle catch-all routes [...rest] -> *rest
+    route = route.replace(/\[\.\.\.([^\]]+)\]/g, "*$1");
+
     // Handle dynamic routes [param] -> :param
     route = route.replace(/\[([^\]]+)\]/g, ":$1");
 
@@ -198,6 +198,10 @@ export class WebliskLogger {
     });
   }
 
+  logSecurity(event: string, context?: Record<string, unknown>): void {
+    this.warn(`Security: ${event}`, { security: true, ...context });
+  }
+
   logError(
     message: string,
     error: Error,
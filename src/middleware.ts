@@ -0,0 +1,206 @@
+/**
+ * Weblisk Middleware Module
+ * Ordered middleware chain with next() semantics and built-in security middleware
+ *
+ * A middleware receives the route context and a `next` function. It can:
+ * - short-circuit by returning a Response without calling `next()`
+ * - mutate the RouteContext before calling `next()`
+ * - post-process the Response returned by `next()`
+ */
+
+import type { RouteContext } from "./types.ts";
+import { WebliskError } from "./types.ts";
+import { logger } from "./logger.ts";
+import { security } from "./security.ts";
+import {
+  isRateLimitExempt,
+  RateLimiter,
+  rateLimitHeaders,
+  rateLimitKey,
+  type RateLimitPolicy,
+} from "./rate-limit.ts";
+import type { CookieManager } from "./cookies.ts";
+
+export type MiddlewareNext = () => Promise<Response>;
+
+export type Middleware = (
+  context: RouteContext,
+  next: MiddlewareNext,
+) => Response | Promise<Response>;
+
+/**
+ * Compose middleware into a single handler that ends with the given handler
+ */
+export function composeMiddleware(
+  middleware: Middleware[],
+  handler: (context: RouteContext) => Response | Promise<Response>,
+): (context: RouteContext) => Promise<Response> {
+  return (context: RouteContext) => {
+    let lastIndex = -1;
+
+    const dispatch = async (index: number): Promise<Response> => {
+      if (index <= lastIndex) {
+        throw new WebliskError(
+          "next() called multiple times in the same middleware",
+          "MIDDLEWARE_ERROR",
+          { index },
+        );
+      }
+      lastIndex = index;
+
+      const current = middleware[index];
+      if (!current) {
+        return await handler(context);
+      }
+      return await current(context, () => dispatch(index + 1));
+    };
+
+    return dispatch(0);
+  };
+}
+
+/**
+ * Return a copy of a response with headers added; existing headers win
+ * unless `override` is set (Set-Cookie is always appended)
+ */
+export function withHeaders(
+  response: Response,
+  headers: Record<string, string>,
+  override = false,
+): Response {
+  const merged = new Headers(response.headers);
+
+  for (const [name, value] of Object.entries(headers)) {
+    if (name.toLowerCase() === "set-cookie") {
+      merged.append(name, value);
+    } else if (override || !merged.has(name)) {
+      merged.set(name, value);
+    }
+  }
+
+  return new Response(response.body, {
+    status: response.status,
+    statusText: response.statusText,
+    headers: merged,
+  });
+}
+
+// Built-in middleware. Each is a named function so it can be replaced or
+// removed by name (see WebliskFramework.replaceMiddleware).
+
+/**
+ * Reject clients that exceed the configured request rate, adding the
+ * RateLimit-* headers to every response
+ */
+export function rateLimitMiddleware(
+  config: RateLimitPolicy,
+  limiter: RateLimiter = new RateLimiter(),
+): Middleware {
+  return async function rateLimit(context, next) {
+    if (isRateLimitExempt(context.request)) return next();
+
+    // Skip rate limiting for HEAD requests in development (used by auto-reload)
+    const isDevelopment = Deno.env.get("WEBLISK_ENV") === "development";
+    if (isDevelopment && context.request.method === "HEAD") {
+      return next();
+    }
+
+    const key = `${config.name ?? "global"}:${rateLimitKey(context, config)}`;
+    const result = await limiter.consume(key, config);
+    const headers = rateLimitHeaders(result, config);
+
+    if (!result.allowed) {
+      logger.warn("Rate limit exceeded", {
+        path: context.url.pathname,
+        limit: config.name ?? "global",
+        ip: context.clientIP,
+      });
+
+      return new Response("Rate limit exceeded", { status: 429, headers });
+    }
+
+    let response: Response;
+    try {
+      response = await next();
+    } catch (error) {
+      // Thrown errors become error responses further out
+      if (config.skipFailedRequests) await limiter.refund(key, config);
+      throw error;
+    }
+
+    if (
+      (config.skipSuccessfulRequests && response.status < 400) ||
+      (config.skipFailedRequests && response.status >= 400)
+    ) {
+      await limiter.refund(key, config);
+    }
+    return withHeaders(response, headers);
+  };
+}
+
+/**
+ * Reject disallowed origins and add CORS headers for allowed ones
+ */
+export function corsMiddleware(allowedOrigins: string[]): Middleware {
+  return async function cors(context, next) {
+    const origin = context.request.headers.get("Origin");
+    if (!origin) return next();
+
+    if (!security.validateCorsOrigin(origin, allowedOrigins)) {
+      logger.warn("CORS violation", { origin, path: context.url.pathname });
+      return new Response("CORS not allowed", { status: 403 });
+    }
+
+    return withHeaders(await next(), {
+      "Access-Control-Allow-Origin": origin,
+      "Access-Control-Allow-Credentials": "true",
+      "Access-Control-Allow-Methods": "GET, POST, PUT, PATCH, DELETE, OPTIONS",
+      "Access-Control-Allow-Headers": "Content-Type, Authorization",
+    });
+  };
+}
+
+/**
+ * Resolve the session ID onto the context and set the cookie for new sessions
+ */
+export function sessionMiddleware(cookieManager: CookieManager): Middleware {
+  return async function session(context, next) {
+    const { sessionId, isNewSession, cookieHeader } = cookieManager
+      .handleSession(context.request);
+    context.sessionId = sessionId;
+
+    logger.debug("HTTP Request session handling", {
+      path: context.url.pathname,
+      sessionId: sessionId.slice(-8), // Log only last 8 chars for security
+      isNewSession,
+    });
+
+    const response = await next();
+    if (!isNewSession || !cookieHeader) return response;
+
+    logger.debug("Set new session cookie", {
+      path: context.url.pathname,
+      sessionId: sessionId.slice(-8),
+    });
+    return withHeaders(response, { "Set-Cookie": cookieHeader });
+  };
+}
+
+/**
+ * Add security headers (and HSTS when enabled) to the response
+ */
+export function securityHeadersMiddleware(
+  options: { production: boolean; hsts?: boolean },
+): Middleware {
+  const headers: Record<string, string> = {
+    ...security.getSecurityHeaders(options.production),
+  };
+  if (options.hsts) {
+    headers["Strict-Transport-Security"] =
+      "max-age=31536000; includeSubDomains";
+  }
+
+  return async function securityHeaders(_context, next) {
+    return withHeaders(await next(), headers);
+  };
+}
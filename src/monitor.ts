@@ -104,6 +104,7 @@ export class FrameworkMonitor {
     messagesSent: 0,
     errors: 0,
   };
+  private deprecatedCalls = new Map<string, number>(); // "route version" → calls
 
   constructor() {
     this.startTime = Date.now();
@@ -484,6 +485,18 @@ export class FrameworkMonitor {
     }
   }
 
+  trackDeprecatedCall(route: string, version = ""): void {
+    const key = `${route} ${version}`;
+    this.deprecatedCalls.set(key, (this.deprecatedCalls.get(key) || 0) + 1);
+  }
+
+  getDeprecatedCalls(): { route: string; version: string; calls: number }[] {
+    return Array.from(this.deprecatedCalls, ([key, calls]) => {
+      const [route, version] = key.split(" ");
+      return { route, version, calls };
+    });
+  }
+
   trackWebSocketConnection(): void {
     this.websocketStats.totalConnections++;
   }
@@ -585,6 +598,24 @@ export class FrameworkMonitor {
       `weblisk_websocket_messages_sent_total ${metrics.websocket.messagesSent}`,
     );
 
+    // Calls to deprecated API versions
+    const deprecatedCalls = this.getDeprecatedCalls();
+    if (deprecatedCalls.length > 0) {
+      lines.push(
+        `# HELP weblisk_deprecated_api_calls_total Calls to deprecated API versions`,
+      );
+      lines.push(`# TYPE weblisk_deprecated_api_calls_total counter`);
+      const label = (value: string) =>
+        value.replace(/\\/g, "\\\\").replace(/"/g, '\\"');
+      for (const { route, version, calls } of deprecatedCalls) {
+        lines.push(
+          `weblisk_deprecated_api_calls_total{route="${
+            label(route)
+          }",version="${label(version)}"} ${calls}`,
+        );
+      }
+    }
+
     return lines.join("\n") + "\n";
   }
 }
@@ -0,0 +1,126 @@
+/**
+ * Weblisk Negotiation Module
+ * Accept header parsing for routes that serve HTML and JSON from one data()
+ */
+
+export const NEGOTIABLE_TYPES = {
+  html: "text/html",
+  json: "application/json",
+  ndjson: "application/x-ndjson",
+} as const;
+
+/**
+ * Per-route content negotiation settings
+ */
+export interface RouteNegotiationConfig {
+  fields?: string[]; // Allowlist of top-level data() keys to serialize
+  list?: string; // data() key holding an array, served as NDJSON on request
+}
+
+interface AcceptEntry {
+  type: string;
+  subtype: string;
+  q: number;
+}
+
+function parseAccept(header: string): AcceptEntry[] {
+  const entries: AcceptEntry[] = [];
+
+  for (const part of header.split(",")) {
+    const [range, ...params] = part.trim().toLowerCase().split(";");
+    const [type, subtype] = range.trim().split("/");
+    if (!type || !subtype) continue;
+
+    let q = 1;
+    for (const param of params) {
+      const [name, value] = param.trim().split("=");
+      if (name === "q") {
+        const parsed = Number(value);
+        q = Number.isFinite(parsed) ? Math.min(Math.max(parsed, 0), 1) : 0;
+      }
+    }
+    entries.push({ type, subtype, q });
+  }
+
+  return entries;
+}
+
+/**
+ * Pick the offered media type the client prefers
+ * The most specific matching range decides each type's quality; ties go to
+ * the earlier offer, and a missing Accept header selects the first offer.
+ * Returns undefined when the client accepts none of the offers.
+ */
+export function negotiateMediaType(
+  acceptHeader: string | null,
+  offered: string[],
+): string | undefined {
+  if (!acceptHeader) return offered[0];
+
+  const entries = parseAccept(acceptHeader);
+  let best: { type: string; q: number } | undefined;
+
+  for (const offer of offered) {
+    const [type, subtype] = offer.toLowerCase().split("/");
+    let match: { specificity: number; q: number } | undefined;
+
+    for (const entry of entries) {
+      const specificity = entry.type === type && entry.subtype === subtype
+        ? 2
+        : entry.type === type && entry.subtype === "*"
+        ? 1
+        : entry.type === "*" && entry.subtype === "*"
+        ? 0
+        : -1;
+      if (specificity < 0) continue;
+      if (!match || specificity > match.specificity) {
+        match = { specificity, q: entry.q };
+      }
+    }
+
+    if (match && match.q > 0 && (!best || match.q > best.q)) {
+      best = { type: offer, q: match.q };
+    }
+  }
+
+  return best?.type;
+}
+
+/**
+ * Keep only the allowlisted top-level keys (all keys when no list is given)
+ */
+export function pickFields(
+  data: Record<string, unknown>,
+  fields?: string[],
+): Record<string, unknown> {
+  if (!fields) return data;
+  return Object.fromEntries(
+    fields.filter((field) => field in data).map((field) => [
+      field,
+      data[field],
+    ]),
+  );
+}
+
+/**
+ * Add Accept to the Vary header of a response
+ */
+export function varyOnAccept(response: Response): Response {
+  const headers = new Headers(response.headers);
+  const vary = headers.get("Vary");
+  const values = vary ? vary.split(",").map((value) => value.trim()) : [];
+
+  if (
+    values.includes("*") ||
+    values.some((value) => value.toLowerCase() === "accept")
+  ) {
+    return response;
+  }
+  headers.set("Vary", [...values, "Accept"].join(", "));
+
+  return new Response(response.body, {
+    status: response.status,
+    statusText: response.statusText,
+    headers,
+  });
+}
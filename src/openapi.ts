@@ -0,0 +1,411 @@
+/**
+ * Weblisk OpenAPI Module
+ * OpenAPI 3.1 document generation for registered API routes, served as
+ * JSON together with a self-hosted interactive docs page
+ *
+ * Operations are built from each route's methods, path params, description
+ * and version, its `openapi` docs (schemas, query params, responses) and
+ * `advanced.apiManagement` (deprecation, examples, raw `openApiSpec`).
+ */
+
+import { WebliskRouter } from "./router.ts";
+import type { RouteType, TypedRouteConfig } from "./route-types.ts";
+import {
+  ROUTE_METHODS,
+  type RouteMethod,
+  type WebliskRoute,
+} from "./routes.ts";
+
+export type JsonSchema = Record<string, unknown>;
+
+/**
+ * Documentation for one operation
+ */
+export interface ApiOperationDocs {
+  summary?: string;
+  description?: string;
+  tags?: string[];
+  query?: Record<
+    string,
+    { schema?: JsonSchema; required?: boolean; description?: string }
+  >;
+  requestBody?: JsonSchema; // JSON body of POST/PUT/PATCH
+  response?: JsonSchema; // JSON body of the success response
+  responses?: Record<string, { description: string; schema?: JsonSchema }>;
+  deprecated?: boolean;
+}
+
+/**
+ * Route-level docs; `methods` overrides fields for a single method
+ */
+export interface RouteApiDocs extends ApiOperationDocs {
+  hidden?: boolean;
+  methods?: Partial<Record<RouteMethod, ApiOperationDocs>>;
+}
+
+export interface OpenApiConfig {
+  enabled: boolean;
+  path: string; // JSON document
+  docsPath: string; // Interactive docs page
+  interactive: boolean;
+  title: string;
+  version: string;
+  description?: string;
+  servers: string[]; // Default: the request origin
+  routeTypes: RouteType[]; // Route types included in the document
+}
+
+export type OpenApiDocument = Record<string, unknown> & {
+  openapi: string;
+  paths: Record<string, Record<string, unknown>>;
+};
+
+const ERROR_SCHEMA: JsonSchema = {
+  type: "object",
+  required: ["error"],
+  properties: {
+    error: {
+      type: "object",
+      required: ["status", "code", "message"],
+      properties: {
+        status: { type: "integer" },
+        code: { type: "string" },
+        message: { type: "string" },
+        details: {},
+      },
+    },
+  },
+};
+
+const BODY_METHODS: RouteMethod[] = ["post", "put", "patch"];
+
+/**
+ * Builds and serves the OpenAPI document for an application
+ */
+export class OpenApiGenerator {
+  constructor(private config: OpenApiConfig) {}
+
+  /**
+   * Answer the document and docs page paths (null for any other path, or
+   * when generation is disabled)
+   */
+  handle(
+    request: Request,
+    routes: Array<[string, WebliskRoute]>,
+  ): Response | null {
+    if (!this.config.enabled) return null;
+    if (request.method !== "GET" && request.method !== "HEAD") return null;
+
+    const url = new URL(request.url);
+    // routing.trailingSlash "always" redirects /api-docs to /api-docs/
+    const pathname = url.pathname.replace(/(.)\/$/, "$1");
+    let body: string;
+    let contentType: string;
+
+    if (pathname === this.config.path) {
+      body = JSON.stringify(this.buildDocument(routes, url.origin), null, 2);
+      contentType = "application/json";
+    } else if (
+      pathname === this.config.docsPath && this.config.interactive
+    ) {
+      body = this.renderDocsPage();
+      contentType = "text/html; charset=utf-8";
+    } else {
+      return null;
+    }
+
+    return new Response(request.method === "HEAD" ? null : body, {
+      headers: { "Content-Type": contentType },
+    });
+  }
+
+  /**
+   * Build the OpenAPI document from the registered routes
+   */
+  buildDocument(
+    routes: Array<[string, WebliskRoute]>,
+    origin?: string,
+  ): OpenApiDocument {
+    const paths: OpenApiDocument["paths"] = {};
+
+    for (const [pattern, route] of routes) {
+      const config = route.getUserConfig() as TypedRouteConfig;
+      if (
+        !config.type || !this.config.routeTypes.includes(config.type) ||
+        config.openapi?.hidden
+      ) {
+        continue;
+      }
+
+      // HEAD and OPTIONS (CORS preflight) are answered for every route
+      const methods = route.getAllowedMethods()
+        .map((method) => method.toLowerCase() as RouteMethod)
+        .filter((method) => ROUTE_METHODS.includes(method));
+
+      for (const variant of OpenApiGenerator.pathVariants(pattern)) {
+        const item = paths[variant.path] ??= {};
+        for (const method of methods) {
+          item[method] = this.buildOperation(
+            config,
+            method,
+            variant.path,
+            variant.parameters,
+          );
+        }
+      }
+    }
+
+    const servers = this.config.servers.length > 0
+      ? this.config.servers
+      : origin
+      ? [origin]
+      : [];
+
+    return {
+      openapi: "3.1.0",
+      info: {
+        title: this.config.title,
+        version: this.config.version,
+        ...(this.config.description
+          ? { description: this.config.description }
+          : {}),
+      },
+      ...(servers.length > 0
+        ? { servers: servers.map((url) => ({ url })) }
+        : {}),
+      paths,
+      components: { schemas: { Error: ERROR_SCHEMA } },
+    };
+  }
+
+  /**
+   * Build one operation object
+   */
+  private buildOperation(
+    config: TypedRouteConfig,
+    method: RouteMethod,
+    path: string,
+    pathParameters: Record<string, unknown>[],
+  ): Record<string, unknown> {
+    const { hidden: _hidden, methods, ...routeDocs } = config.openapi || {};
+    const docs: ApiOperationDocs = { ...routeDocs, ...methods?.[method] };
+    const management = config.advanced?.apiManagement;
+    const examples = management?.documentation?.examples;
+
+    const parameters = [
+      ...pathParameters,
+      ...Object.entries(docs.query || {}).map(([name, query]) => ({
+        name,
+        in: "query",
+        required: query.required ?? false,
+        ...(query.description ? { description: query.description } : {}),
+        schema: query.schema ?? { type: "string" },
+      })),
+    ];
+
+    const responses: Record<string, unknown> = {
+      "200": {
+        description: "Successful response",
+        content: {
+          "application/json": {
+            schema: docs.response ?? {},
+            ...(examples
+              ? {
+                examples: Object.fromEntries(
+                  Object.entries(examples).map(([name, value]) => [
+                    name,
+                    { value },
+                  ]),
+                ),
+              }
+              : {}),
+          },
+        },
+      },
+    };
+    for (const [status, response] of Object.entries(docs.responses || {})) {
+      responses[status] = {
+        description: response.description,
+        ...(response.schema
+          ? { content: { "application/json": { schema: response.schema } } }
+          : {}),
+      };
+    }
+    responses.default = {
+      description: "Error",
+      content: {
+        "application/json": {
+          schema: { $ref: "#/components/schemas/Error" },
+        },
+      },
+    };
+
+    const deprecated = docs.deprecated ?? !!management?.deprecationDate;
+    const version = config.version ?? management?.apiVersion;
+
+    return {
+      operationId: OpenApiGenerator.operationId(method, path),
+      ...(docs.summary ? { summary: docs.summary } : {}),
+      ...(docs.description ?? config.description
+        ? { description: docs.description ?? config.description }
+        : {}),
+      ...(docs.tags ? { tags: docs.tags } : {}),
+      ...(parameters.length > 0 ? { parameters } : {}),
+      ...(docs.requestBody && BODY_METHODS.includes(method)
+        ? {
+          requestBody: {
+            required: true,
+            content: { "application/json": { schema: docs.requestBody } },
+          },
+        }
+        : {}),
+      responses,
+      ...(deprecated ? { deprecated: true } : {}),
+      ...(management?.sunsetDate
+        ? { "x-sunset": management.sunsetDate.toISOString() }
+        : {}),
+      ...(version ? { "x-api-version": version } : {}),
+      ...management?.documentation?.openApiSpec,
+    };
+  }
+
+  /**
+   * OpenAPI has no optional path params, so each optional combination of
+   * a pattern becomes its own path (`/posts/:page?` → /posts, /posts/{page})
+   */
+  private static pathVariants(
+    pattern: string,
+  ): { path: string; parameters: Record<string, unknown>[] }[] {
+    const variants = WebliskRouter.expandOptional(
+      WebliskRouter.parsePattern(pattern),
+    );
+
+    return variants.map((segments) => {
+      const parameters: Record<string, unknown>[] = [];
+      const parts = segments.map((segment) => {
+        if (segment.type === "static") return segment.value;
+        parameters.push({
+          name: segment.value,
+          in: "path",
+          required: true,
+          ...(segment.type === "wildcard"
+            ? { description: "One or more path segments" }
+            : {}),
+          schema: {
+            type: "string",
+            ...(segment.constraint
+              ? { pattern: `^(?:${segment.constraint})$` }
+              : {}),
+          },
+        });
+        return `{${segment.value}}`;
+      });
+
+      return { path: `/${parts.join("/")}`, parameters };
+    });
+  }
+
+  private static operationId(method: RouteMethod, path: string): string {
+    const words = path.split(/[^A-Za-z0-9]+/).filter(Boolean);
+    return method + words
+      .map((word) => word[0].toUpperCase() + word.slice(1))
+      .join("");
+  }
+
+  /**
+   * Self-contained docs page: lists the operations and sends test requests
+   */
+  private renderDocsPage(): string {
+    const title = this.config.title.replace(/[<>&"]/g, "");
+    const specUrl = JSON.stringify(this.config.path);
+
+    return `<!DOCTYPE html>
+<html lang="en">
+<head>
+  <meta charset="UTF-8">
+  <meta name="viewport" content="width=device-width, initial-scale=1.0">
+  <title>${title} - API Reference</title>
+  <style>
+    body { font-family: system-ui, sans-serif; margin: 0 auto; max-width: 960px; padding: 2rem; color: #1f2937; }
+    details { border: 1px solid #e5e7eb; border-radius: 6px; margin: 0.5rem 0; }
+    summary { cursor: pointer; padding: 0.75rem; font-family: monospace; }
+    .method { display: inline-block; min-width: 4rem; font-weight: bold; text-transform: uppercase; }
+    .deprecated summary { text-decoration: line-through; color: #9ca3af; }
+    .body { padding: 0 0.75rem 0.75rem; }
+    label { display: block; margin: 0.5rem 0; }
+    input, textarea { width: 100%; box-sizing: border-box; font-family: monospace; }
+    pre { background: #f3f4f6; padding: 0.75rem; overflow: auto; }
+  </style>
+</head>
+<body>
+  <h1>${title}</h1>
+  <p><a href=${specUrl}>OpenAPI document</a></p>
+  <div id="operations">Loading…</div>
+  <script>
+    (async function () {
+      const spec = await (await fetch(${specUrl})).json();
+      const root = document.getElementById("operations");
+      root.textContent = "";
+      const el = (tag, text) => {
+        const node = document.createElement(tag);
+        if (text) node.textContent = text;
+        return node;
+      };
+
+      for (const [path, item] of Object.entries(spec.paths)) {
+        for (const [method, op] of Object.entries(item)) {
+          const details = el("details");
+          if (op.deprecated) details.className = "deprecated";
+          const summary = el("summary");
+          summary.append(el("span", method), " " + path + (op.summary ? " - " + op.summary : ""));
+          summary.firstChild.className = "method";
+          details.append(summary);
+
+          const body = el("div");
+          body.className = "body";
+          if (op.description) body.append(el("p", op.description));
+          const inputs = {};
+          for (const param of op.parameters || []) {
+            const label = el("label", param.name + " (" + param.in + (param.required ? ", required" : "") + ")");
+            const input = el("input");
+            inputs[param.name] = { param, input };
+            label.append(input);
+            body.append(label);
+          }
+          let payload;
+          if (op.requestBody) {
+            const label = el("label", "Request body (JSON)");
+            payload = el("textarea");
+            payload.rows = 6;
+            payload.value = "{}";
+            label.append(payload);
+            body.append(label);
+          }
+          const send = el("button", "Send request");
+          const output = el("pre");
+          send.onclick = async () => {
+            let url = path;
+            const query = new URLSearchParams();
+            for (const { param, input } of Object.values(inputs)) {
+              if (param.in === "path") url = url.replace("{" + param.name + "}", encodeURIComponent(input.value));
+              else if (input.value) query.set(param.name, input.value);
+            }
+            const response = await fetch(url + (query.size ? "?" + query : ""), {
+              method: method.toUpperCase(),
+              headers: payload ? { "Content-Type": "application/json" } : {},
+              body: payload ? payload.value : undefined,
+            });
+            output.textContent = response.status + " " + response.statusText + "\\n\\n" + await response.text();
+          };
+          body.append(send, output);
+          details.append(body);
+          root.append(details);
+        }
+      }
+    })();
+  </script>
+</body>
+</html>
+`;
+  }
+}
@@ -0,0 +1,211 @@
+/**
+ * Weblisk Page Cache Module
+ * Full-page output caching with ETag/304 support for routes whose cache
+ * strategy is "full" (the `static` and `edge` route type presets)
+ */
+
+import { type CachedPage, WebliskCache } from "./cache.ts";
+import type { RouteOptimization, TypedRouteConfig } from "./route-types.ts";
+import type { WebliskRoute } from "./routes.ts";
+import type { RouteContext } from "./types.ts";
+
+export interface PageCacheConfig {
+  pages: boolean;
+  maxPages: number;
+  bypassCookies: string[];
+}
+
+/**
+ * Cache strategy resolved for a route
+ */
+export interface RouteCachePolicy {
+  strategy: RouteOptimization["cacheStrategy"];
+  ttl?: number; // Milliseconds, from `advanced.caching` or the type defaults
+}
+
+const DEFAULT_PAGE_TTL = 60000;
+
+/**
+ * SHA-256 hex digest, used for ETags and template cache keys
+ */
+export async function hashContent(
+  content: string | Uint8Array<ArrayBuffer>,
+): Promise<string> {
+  const bytes = typeof content === "string"
+    ? new TextEncoder().encode(content)
+    : content;
+  const digest = await crypto.subtle.digest("SHA-256", bytes);
+  return Array.from(new Uint8Array(digest))
+    .map((byte) => byte.toString(16).padStart(2, "0"))
+    .join("");
+}
+
+/**
+ * Serves and stores full-page responses
+ * Only anonymous GET/HEAD requests are cached, and only 200 responses that
+ * set no cookies and are not marked private or no-store.
+ */
+export class PageCache {
+  private cache: WebliskCache;
+
+  constructor(private config: PageCacheConfig) {
+    this.cache = new WebliskCache({
+      enablePageCache: config.pages,
+      maxCacheSize: config.maxPages,
+    });
+  }
+
+  /**
+   * Answer from the cache, or render and store the response
+   */
+  async handle(
+    route: WebliskRoute,
+    pattern: string,
+    context: RouteContext,
+    render: () => Promise<Response>,
+  ): Promise<Response> {
+    const policy = route.getCachePolicy();
+    if (
+      !this.config.pages || policy.strategy !== "full" ||
+      !this.isCacheable(route, context)
+    ) {
+      return await render();
+    }
+
+    const key = PageCache.buildKey(pattern, context, route);
+    const cached = this.cache.getCachedPage(key);
+    if (cached) return PageCache.respond(cached, context.request, "HIT");
+
+    const response = await render();
+    // HEAD responses carry no body, so only GET fills the cache
+    if (context.request.method !== "GET" || !PageCache.isStorable(response)) {
+      return response;
+    }
+
+    const ttl = policy.ttl ?? DEFAULT_PAGE_TTL;
+    const body = new Uint8Array(await response.arrayBuffer());
+    const headers = new Headers(response.headers);
+    if (!headers.has("Cache-Control")) {
+      headers.set("Cache-Control", `public, max-age=${Math.floor(ttl / 1000)}`);
+    }
+
+    const page: CachedPage = {
+      body,
+      status: response.status,
+      headers: Array.from(headers.entries()),
+      etag: `"${await hashContent(body)}"`,
+      expires: Date.now() + ttl,
+    };
+    this.cache.cachePage(key, page);
+
+    return PageCache.respond(page, context.request, "MISS");
+  }
+
+  /**
+   * Remove cached pages for a route pattern (all pages when omitted)
+   */
+  invalidate(pattern?: string): number {
+    return this.cache.invalidatePages(
+      pattern === undefined ? "" : `${pattern}|`,
+    );
+  }
+
+  /**
+   * Get cache statistics
+   */
+  getStats(): { pages: number; maxPages: number } {
+    return {
+      pages: this.cache.getStats().pageCache.size,
+      maxPages: this.config.maxPages,
+    };
+  }
+
+  /**
+   * Protected routes and authenticated requests (a principal, API key,
+   * Authorization header or bypass cookie) are always rendered
+   */
+  private isCacheable(route: WebliskRoute, context: RouteContext): boolean {
+    const request = context.request;
+    if (request.method !== "GET" && request.method !== "HEAD") return false;
+    if (route.getAccess() !== "public") return false;
+    if (context.principal || context.apiKey) return false;
+    if (request.headers.has("Authorization")) return false;
+
+    const cookieHeader = request.headers.get("Cookie");
+    if (!cookieHeader || this.config.bypassCookies.length === 0) return true;
+
+    const names = cookieHeader.split(";").map((cookie) =>
+      cookie.split("=")[0].trim()
+    );
+    return !this.config.bypassCookies.some((name) => names.includes(name));
+  }
+
+  /**
+   * Cache key from the route pattern and API version, params, sorted query
+   * and locale (plus the Accept header for routes using content negotiation)
+   */
+  private static buildKey(
+    pattern: string,
+    context: RouteContext,
+    route: WebliskRoute,
+  ): string {
+    const params = Object.entries(context.params || {})
+      .sort(([a], [b]) => a.localeCompare(b));
+    const query = new URLSearchParams(context.url.searchParams);
+    query.sort();
+
+    const headers = context.request.headers;
+    const locale = (headers.get("Accept-Language") || "")
+      .split(",")[0].split(";")[0].trim().toLowerCase();
+    const config = route.getUserConfig() as TypedRouteConfig;
+    const accept = config.negotiate ? headers.get("Accept") || "" : "";
+
+    return [
+      pattern,
+      config.version || "",
+      JSON.stringify(params),
+      query.toString(),
+      locale,
+      accept,
+    ].join("|");
+  }
+
+  private static isStorable(response: Response): boolean {
+    const cacheControl = response.headers.get("Cache-Control") || "";
+    return response.status === 200 &&
+      !response.headers.has("Set-Cookie") &&
+      !/\b(private|no-store)\b/i.test(cacheControl) &&
+      response.headers.get("Vary")?.trim() !== "*";
+  }
+
+  /**
+   * Build the response for a cached page (304 when the ETag matches)
+   */
+  private static respond(
+    page: CachedPage,
+    request: Request,
+    status: "HIT" | "MISS",
+  ): Response {
+    const headers = new Headers(page.headers);
+    headers.set("ETag", page.etag);
+    headers.set("X-Weblisk-Cache", status);
+
+    const ifNoneMatch = request.headers.get("If-None-Match");
+    if (
+      ifNoneMatch &&
+      (ifNoneMatch.trim() === "*" ||
+        ifNoneMatch.split(",").some((tag) =>
+          tag.trim().replace(/^W\//, "") === page.etag
+        ))
+    ) {
+      headers.delete("Content-Type");
+      headers.delete("Content-Length");
+      return new Response(null, { status: 304, headers });
+    }
+
+    return new Response(request.method === "HEAD" ? null : page.body, {
+      status: page.status,
+      headers,
+    });
+  }
+}
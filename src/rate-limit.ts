@@ -0,0 +1,335 @@
+/**
+ * Weblisk Rate Limit Module
+ * Fixed-window, sliding-window and token-bucket limits over a pluggable
+ * state store, with RateLimit-* response headers
+ *
+ * Limits apply globally (security.rateLimit*) and per route or group
+ * (`rateLimit`, or `advanced.apiManagement.rateLimit` for API routes).
+ * Clients are keyed by IP, session, API key or a custom function.
+ */
+
+import type { RouteContext } from "./types.ts";
+import type { RateLimitConfig } from "./security.ts";
+
+export type RateLimitAlgorithm =
+  | "fixed-window"
+  | "sliding-window"
+  | "token-bucket";
+
+export type RateLimitKey =
+  | "ip"
+  | "session"
+  | "api-key"
+  | ((context: RouteContext) => string);
+
+export interface RateLimitPolicy extends RateLimitConfig {
+  algorithm?: RateLimitAlgorithm; // Default "sliding-window"
+  burstLimit?: number; // Token bucket capacity (default maxRequests)
+  key?: RateLimitKey; // Default "ip" (keyGenerator is used when set)
+  name?: string; // Bucket name; routes sharing a name share the limit
+}
+
+/**
+ * Stored limiter state (windows use count/start/previous, token buckets
+ * use tokens/updated)
+ */
+export interface RateLimitState {
+  count: number;
+  start: number;
+  previous: number;
+  tokens: number;
+  updated: number;
+}
+
+/**
+ * Where limiter state lives; implement it over a shared database to
+ * enforce limits across instances
+ */
+export interface RateLimitStore {
+  /**
+   * Atomically replace the state under `key` (undefined when missing or
+   * expired) with `update(state)`, keeping it for `ttlMs`
+   */
+  update(
+    key: string,
+    ttlMs: number,
+    update: (state: RateLimitState | undefined) => RateLimitState,
+  ): Promise<RateLimitState>;
+  reset(key?: string): Promise<void>;
+}
+
+export interface RateLimitResult {
+  allowed: boolean;
+  limit: number;
+  remaining: number;
+  resetMs: number; // Until the current window ends or the bucket refills
+  retryAfterMs: number; // Until the next request is allowed (0 if allowed)
+}
+
+/**
+ * In-process store (the default); expired entries are swept periodically
+ */
+export class MemoryRateLimitStore implements RateLimitStore {
+  private entries = new Map<
+    string,
+    { state: RateLimitState; expires: number }
+  >();
+  private operations = 0;
+
+  update(
+    key: string,
+    ttlMs: number,
+    update: (state: RateLimitState | undefined) => RateLimitState,
+  ): Promise<RateLimitState> {
+    const now = Date.now();
+    if (++this.operations % 1000 === 0) this.prune(now);
+
+    const entry = this.entries.get(key);
+    const state = update(
+      entry && entry.expires > now ? { ...entry.state } : undefined,
+    );
+    this.entries.set(key, { state, expires: now + ttlMs });
+    return Promise.resolve(state);
+  }
+
+  reset(key?: string): Promise<void> {
+    if (key === undefined) this.entries.clear();
+    else this.entries.delete(key);
+    return Promise.resolve();
+  }
+
+  private prune(now: number): void {
+    for (const [key, entry] of this.entries) {
+      if (entry.expires <= now) this.entries.delete(key);
+    }
+  }
+}
+
+const EMPTY_STATE: RateLimitState = {
+  count: 0,
+  start: 0,
+  previous: 0,
+  tokens: 0,
+  updated: 0,
+};
+
+/**
+ * Applies rate limit policies against a store
+ */
+export class RateLimiter {
+  constructor(public store: RateLimitStore = new MemoryRateLimitStore()) {}
+
+  /**
+   * Count a request against the policy
+   */
+  async consume(
+    key: string,
+    policy: RateLimitPolicy,
+  ): Promise<RateLimitResult> {
+    const now = Date.now();
+    let result!: RateLimitResult;
+
+    await this.store.update(key, this.ttl(policy), (stored) => {
+      const state = { ...EMPTY_STATE, ...stored };
+      switch (policy.algorithm ?? "sliding-window") {
+        case "fixed-window":
+          result = RateLimiter.fixedWindow(state, policy, now, !stored);
+          break;
+        case "token-bucket":
+          result = RateLimiter.tokenBucket(state, policy, now, !stored);
+          break;
+        default:
+          result = RateLimiter.slidingWindow(state, policy, now);
+      }
+      return state;
+    });
+
+    return result;
+  }
+
+  /**
+   * Give back a counted request (for skipSuccessfulRequests and
+   * skipFailedRequests)
+   */
+  async refund(key: string, policy: RateLimitPolicy): Promise<void> {
+    await this.store.update(key, this.ttl(policy), (stored) => {
+      const state = { ...EMPTY_STATE, ...stored };
+      if (policy.algorithm === "token-bucket") {
+        state.tokens = Math.min(
+          policy.burstLimit ?? policy.maxRequests,
+          state.tokens + 1,
+        );
+      } else {
+        state.count = Math.max(0, state.count - 1);
+      }
+      return state;
+    });
+  }
+
+  /**
+   * State must outlive the current and previous window
+   */
+  private ttl(policy: RateLimitPolicy): number {
+    return policy.windowMs * 2;
+  }
+
+  private static fixedWindow(
+    state: RateLimitState,
+    policy: RateLimitPolicy,
+    now: number,
+    fresh: boolean,
+  ): RateLimitResult {
+    if (fresh || now >= state.start + policy.windowMs) {
+      state.start = now;
+      state.count = 0;
+    }
+
+    const resetMs = state.start + policy.windowMs - now;
+    const allowed = state.count < policy.maxRequests;
+    if (allowed) state.count++;
+
+    return {
+      allowed,
+      limit: policy.maxRequests,
+      remaining: Math.max(0, policy.maxRequests - state.count),
+      resetMs,
+      retryAfterMs: allowed ? 0 : resetMs,
+    };
+  }
+
+  /**
+   * Sliding window counter: the previous window's count is weighted by how
+   * much of it still overlaps the sliding window
+   */
+  private static slidingWindow(
+    state: RateLimitState,
+    policy: RateLimitPolicy,
+    now: number,
+  ): RateLimitResult {
+    const { windowMs, maxRequests } = policy;
+    const current = now - (now % windowMs);
+    if (state.start !== current) {
+      state.previous = state.start === current - windowMs ? state.count : 0;
+      state.count = 0;
+      state.start = current;
+    }
+
+    const elapsed = (now - current) / windowMs;
+    const estimated = state.previous * (1 - elapsed) + state.count;
+    const allowed = estimated + 1 <= maxRequests;
+    if (allowed) state.count++;
+
+    const resetMs = current + windowMs - now;
+    let retryAfterMs = 0;
+    if (!allowed) {
+      // Time until the previous window's weight drops far enough
+      const excess = estimated + 1 - maxRequests;
+      retryAfterMs = excess <= state.previous * (1 - elapsed)
+        ? Math.ceil((excess / state.previous) * windowMs)
+        : resetMs;
+    }
+
+    return {
+      allowed,
+      limit: maxRequests,
+      remaining: Math.max(0, Math.floor(maxRequests - estimated - 1)),
+      resetMs,
+      retryAfterMs,
+    };
+  }
+
+  /**
+   * Token bucket: holds up to burstLimit tokens, refilled at
+   * maxRequests per windowMs
+   */
+  private static tokenBucket(
+    state: RateLimitState,
+    policy: RateLimitPolicy,
+    now: number,
+    fresh: boolean,
+  ): RateLimitResult {
+    const capacity = policy.burstLimit ?? policy.maxRequests;
+    const rate = policy.maxRequests / policy.windowMs; // Tokens per ms
+
+    state.tokens = fresh
+      ? capacity
+      : Math.min(capacity, state.tokens + (now - state.updated) * rate);
+    state.updated = now;
+
+    const allowed = state.tokens >= 1;
+    if (allowed) state.tokens -= 1;
+
+    return {
+      allowed,
+      limit: capacity,
+      remaining: Math.floor(state.tokens),
+      resetMs: Math.ceil((capacity - state.tokens) / rate),
+      retryAfterMs: allowed ? 0 : Math.ceil((1 - state.tokens) / rate),
+    };
+  }
+}
+
+const exemptRequests = new WeakSet<Request>();
+
+/**
+ * Let a request the framework makes itself (e.g. a static export render)
+ * through every rate limit
+ */
+export function exemptFromRateLimits(request: Request): Request {
+  exemptRequests.add(request);
+  return request;
+}
+
+export function isRateLimitExempt(request: Request): boolean {
+  return exemptRequests.has(request);
+}
+
+/**
+ * Identify the client a request is counted against
+ * Session and API key limits fall back to the client IP
+ */
+export function rateLimitKey(
+  context: RouteContext,
+  policy: RateLimitPolicy,
+): string {
+  const key = policy.key ?? "ip";
+  if (typeof key === "function") return key(context);
+  if (!policy.key && policy.keyGenerator) {
+    return policy.keyGenerator(context.request);
+  }
+
+  const ip = `ip:${context.clientIP ?? "unknown"}`;
+  if (key === "session") {
+    return context.sessionId ? `session:${context.sessionId}` : ip;
+  }
+  if (key === "api-key") {
+    // Only verified keys get their own bucket: made-up keys must not
+    // escape the IP limit, and secrets stay out of the store
+    return context.apiKey ? `api-key:${context.apiKey.id}` : ip;
+  }
+  return ip;
+}
+
+/**
+ * RateLimit-* headers (IETF httpapi-ratelimit-headers), plus Retry-After
+ * when the request was refused
+ */
+export function rateLimitHeaders(
+  result: RateLimitResult,
+  policy: RateLimitPolicy,
+): Record<string, string> {
+  const headers: Record<string, string> = {
+    "RateLimit-Limit": String(result.limit),
+    "RateLimit-Remaining": String(result.remaining),
+    "RateLimit-Reset": String(Math.ceil(result.resetMs / 1000)),
+    "RateLimit-Policy": `${policy.maxRequests};w=${
+      Math.ceil(policy.windowMs / 1000)
+    }${policy.burstLimit ? `;burst=${policy.burstLimit}` : ""}`,
+  };
+  if (!result.allowed) {
+    headers["Retry-After"] = String(
+      Math.max(1, Math.ceil(result.retryAfterMs / 1000)),
+    );
+  }
+  return headers;
+}
@@ -0,0 +1,202 @@
+/**
+ * Weblisk Redirects Module
+ * Declarative redirects, rewrites and trailing-slash normalization
+ *
+ * Sources use the router pattern syntax (`/old/:slug`, `/blog/*path`) and
+ * destinations can reference the captured params (`/posts/:slug`,
+ * `https://docs.example.com/*path`).
+ */
+
+import { HttpError, WebliskError } from "./types.ts";
+import { WebliskRouter } from "./router.ts";
+
+const ABSOLUTE_URL = /^[a-z][a-z0-9+.-]*:/i;
+
+export interface RedirectRule {
+  source: string;
+  destination: string;
+  permanent?: boolean; // 301 when true (default), 302 when false
+  status?: 301 | 302 | 303 | 307 | 308; // Overrides `permanent`
+  preserveQuery?: boolean; // Copy the request query string (default true)
+}
+
+export interface RewriteRule {
+  source: string;
+  destination: string; // Must be a path on this app
+  preserveQuery?: boolean; // Copy the request query string (default true)
+}
+
+export type TrailingSlashPolicy = "ignore" | "always" | "never";
+
+export interface RedirectRulesConfig {
+  redirects?: RedirectRule[];
+  rewrites?: RewriteRule[];
+  trailingSlash?: TrailingSlashPolicy;
+}
+
+export type RedirectResolution =
+  | { type: "redirect"; location: string; status: number }
+  | { type: "rewrite"; url: URL };
+
+/**
+ * Evaluates redirect and rewrite rules for incoming request URLs
+ */
+export class RedirectManager {
+  private redirects = new WebliskRouter<RedirectRule>();
+  private rewrites = new WebliskRouter<RewriteRule>();
+  private trailingSlash: TrailingSlashPolicy = "ignore";
+
+  constructor(config: RedirectRulesConfig = {}) {
+    this.configure(config);
+  }
+
+  /**
+   * Add rules and/or set the trailing slash policy
+   */
+  configure(config: RedirectRulesConfig): void {
+    for (const rule of config.redirects || []) this.addRedirect(rule);
+    for (const rule of config.rewrites || []) this.addRewrite(rule);
+    if (config.trailingSlash) this.setTrailingSlash(config.trailingSlash);
+  }
+
+  /**
+   * Add a redirect rule (a rule with the same source replaces the old one)
+   */
+  addRedirect(rule: RedirectRule): void {
+    this.redirects.add(rule.source, rule);
+  }
+
+  /**
+   * Add a rewrite rule (a rule with the same source replaces the old one)
+   */
+  addRewrite(rule: RewriteRule): void {
+    if (ABSOLUTE_URL.test(rule.destination)) {
+      throw new WebliskError(
+        `Rewrite destination must be a path, got "${rule.destination}"`,
+        "INVALID_REWRITE",
+        { source: rule.source, destination: rule.destination },
+      );
+    }
+    this.rewrites.add(rule.source, rule);
+  }
+
+  /**
+   * Set how trailing slashes are normalized
+   * ("ignore" serves both forms, "always"/"never" redirect to one form)
+   */
+  setTrailingSlash(policy: TrailingSlashPolicy): void {
+    this.trailingSlash = policy;
+  }
+
+  /**
+   * Resolve a URL to a redirect, a rewritten URL, or null to continue
+   * Order: trailing slash normalization, redirects, rewrites
+   */
+  resolve(url: URL): RedirectResolution | null {
+    const normalized = this.normalizeTrailingSlash(url.pathname);
+    if (normalized !== url.pathname) {
+      // A single leading slash: "//evil.com" would leave the site
+      return {
+        type: "redirect",
+        location: `${normalized.replace(/^\/+/, "/")}${url.search}`,
+        status: 308,
+      };
+    }
+
+    const redirect = this.redirects.match(url.pathname);
+    if (redirect) {
+      const rule = redirect.value;
+      const target = RedirectManager.buildDestination(
+        rule.destination,
+        redirect.params,
+        url,
+        rule.preserveQuery !== false,
+      );
+      return {
+        type: "redirect",
+        location: target.origin === url.origin
+          ? `${target.pathname}${target.search}${target.hash}`
+          : target.href,
+        status: rule.status ?? (rule.permanent === false ? 302 : 301),
+      };
+    }
+
+    const rewrite = this.rewrites.match(url.pathname);
+    if (rewrite) {
+      return {
+        type: "rewrite",
+        url: RedirectManager.buildDestination(
+          rewrite.value.destination,
+          rewrite.params,
+          url,
+          rewrite.value.preserveQuery !== false,
+        ),
+      };
+    }
+
+    return null;
+  }
+
+  /**
+   * Apply the trailing slash policy to a pathname
+   * Paths whose last segment looks like a file are never given a slash
+   */
+  private normalizeTrailingSlash(pathname: string): string {
+    if (this.trailingSlash === "ignore" || pathname === "/") return pathname;
+
+    if (this.trailingSlash === "never") {
+      return pathname.endsWith("/")
+        ? pathname.replace(/\/+$/, "") || "/"
+        : pathname;
+    }
+
+    const lastSegment = pathname.slice(pathname.lastIndexOf("/") + 1);
+    if (pathname.endsWith("/") || lastSegment.includes(".")) return pathname;
+    return `${pathname}/`;
+  }
+
+  /**
+   * Substitute `:param` and `*param` tokens and merge the query string
+   * Only destinations that are absolute URLs may leave this origin; a
+   * param cannot turn a path into one (`/go/%2Fevil.com` → `/*rest`)
+   */
+  private static buildDestination(
+    destination: string,
+    params: Record<string, string>,
+    url: URL,
+    preserveQuery: boolean,
+  ): URL {
+    const substituted = destination.replace(
+      /([:*])([A-Za-z_][A-Za-z0-9_]*)/g,
+      (token, kind: string, name: string) => {
+        const value = params[name];
+        if (value === undefined) return token;
+        return kind === "*"
+          ? value.split("/").map(encodeURIComponent).join("/")
+          : encodeURIComponent(value);
+      },
+    );
+
+    const absolute = ABSOLUTE_URL.test(destination);
+    let target: URL;
+    try {
+      target = new URL(
+        absolute ? substituted : substituted.replace(/^[/\\]+/, "/"),
+        url.origin,
+      );
+    } catch {
+      throw new HttpError("Invalid redirect target", 400, "INVALID_REDIRECT");
+    }
+    if (!absolute && target.origin !== url.origin) {
+      throw new HttpError("Invalid redirect target", 400, "INVALID_REDIRECT");
+    }
+    if (preserveQuery) {
+      // Query params set by the destination take precedence
+      const ownKeys = new Set(target.searchParams.keys());
+      for (const [key, value] of url.searchParams) {
+        if (!ownKeys.has(key)) target.searchParams.append(key, value);
+      }
+    }
+    return target;
+  }
+}
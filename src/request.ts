@@ -0,0 +1,246 @@
+/**
+ * Weblisk Request Module
+ * Lazy query parsing and size-limited body parsing for RouteContext
+ */
+
+import {
+  HttpError,
+  type RequestBody,
+  type RequestQuery,
+  type RouteContext,
+} from "./types.ts";
+import type { CookieManager } from "./cookies.ts";
+import { ResponseBuilder } from "./response.ts";
+
+export interface BodyLimits {
+  maxBodySize: number; // JSON, urlencoded and text bodies
+  maxMultipartSize: number; // multipart/form-data bodies
+}
+
+export const DEFAULT_BODY_LIMITS: BodyLimits = {
+  maxBodySize: 1024 * 1024,
+  maxMultipartSize: 10 * 1024 * 1024,
+};
+
+const TRUE_VALUES = ["true", "1", "yes", "on"];
+const FALSE_VALUES = ["false", "0", "no", "off"];
+
+/**
+ * Query string accessor over URLSearchParams
+ */
+export class WebliskQuery implements RequestQuery {
+  constructor(private params: URLSearchParams) {}
+
+  get(name: string): string | undefined {
+    return this.params.get(name) ?? undefined;
+  }
+
+  getAll(name: string): string[] {
+    return this.params.getAll(name);
+  }
+
+  has(name: string): boolean {
+    return this.params.has(name);
+  }
+
+  /**
+   * Get a trimmed, non-empty string value
+   */
+  string(name: string, fallback?: string): string | undefined {
+    const value = this.get(name)?.trim();
+    return value ? value : fallback;
+  }
+
+  /**
+   * Get an integer value (fallback when missing or not an integer)
+   */
+  int(name: string, fallback?: number): number | undefined {
+    const value = this.get(name)?.trim();
+    return value && /^-?\d+$/.test(value) ? parseInt(value, 10) : fallback;
+  }
+
+  /**
+   * Get a finite number value (fallback when missing or not numeric)
+   */
+  number(name: string, fallback?: number): number | undefined {
+    const value = this.get(name)?.trim();
+    if (!value) return fallback;
+    const parsed = Number(value);
+    return Number.isFinite(parsed) ? parsed : fallback;
+  }
+
+  /**
+   * Get a boolean value (true/1/yes/on, false/0/no/off; a bare `?flag`
+   * counts as true)
+   */
+  boolean(name: string, fallback?: boolean): boolean | undefined {
+    const value = this.get(name)?.trim().toLowerCase();
+    if (value === undefined) return fallback;
+    if (value === "" || TRUE_VALUES.includes(value)) return true;
+    if (FALSE_VALUES.includes(value)) return false;
+    return fallback;
+  }
+
+  /**
+   * Convert to a plain object; repeated keys become arrays
+   */
+  toObject(): Record<string, string | string[]> {
+    return entriesToObject(this.params) as Record<string, string | string[]>;
+  }
+}
+
+/**
+ * Collect form/query entries into an object; repeated keys become arrays
+ */
+function entriesToObject(
+  entries: Iterable<[string, FormDataEntryValue]>,
+): RequestBody {
+  const result: RequestBody = {};
+
+  for (const [key, value] of entries) {
+    const existing = result[key];
+    if (existing === undefined) {
+      result[key] = value;
+    } else if (Array.isArray(existing)) {
+      existing.push(value);
+    } else {
+      result[key] = [existing, value];
+    }
+  }
+
+  return result;
+}
+
+/**
+ * Read a request body, rejecting it once it exceeds the limit
+ * (checked against Content-Length first, then while streaming)
+ */
+export async function readLimited(
+  request: Request,
+  limit: number,
+): Promise<Uint8Array<ArrayBuffer>> {
+  const tooLarge = () =>
+    new HttpError(
+      `Request body exceeds the ${limit} byte limit`,
+      413,
+      "PAYLOAD_TOO_LARGE",
+      { limit },
+    );
+
+  const declared = Number(request.headers.get("Content-Length"));
+  if (declared > limit) throw tooLarge();
+  if (!request.body) return new Uint8Array();
+
+  const chunks: Uint8Array[] = [];
+  let size = 0;
+  const reader = request.body.getReader();
+
+  while (true) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    size += value.byteLength;
+    if (size > limit) {
+      await reader.cancel();
+      throw tooLarge();
+    }
+    chunks.push(value);
+  }
+
+  const bytes = new Uint8Array(size);
+  let offset = 0;
+  for (const chunk of chunks) {
+    bytes.set(chunk, offset);
+    offset += chunk.byteLength;
+  }
+  return bytes;
+}
+
+/**
+ * Parse a request body based on its Content-Type
+ * JSON, urlencoded and multipart bodies are supported; text bodies parse to
+ * `{ text }` and an empty body parses to `{}`
+ */
+export async function parseRequestBody<T = RequestBody>(
+  request: Request,
+  limits: BodyLimits = DEFAULT_BODY_LIMITS,
+): Promise<T> {
+  const rawContentType = request.headers.get("Content-Type") || "";
+  const contentType = rawContentType.toLowerCase();
+  const isMultipart = contentType.startsWith("multipart/form-data");
+  const bytes = await readLimited(
+    request,
+    isMultipart ? limits.maxMultipartSize : limits.maxBodySize,
+  );
+
+  if (bytes.byteLength === 0) return {} as T;
+
+  if (isMultipart) {
+    try {
+      const formData = await new Response(bytes, {
+        headers: { "Content-Type": rawContentType }, // Boundary is case-sensitive
+      }).formData();
+      return entriesToObject(formData) as T;
+    } catch {
+      throw new HttpError("Malformed multipart body", 400, "INVALID_BODY");
+    }
+  }
+
+  const text = new TextDecoder().decode(bytes);
+
+  if (contentType.startsWith("application/x-www-form-urlencoded")) {
+    return entriesToObject(new URLSearchParams(text)) as T;
+  }
+
+  if (contentType.includes("json")) {
+    try {
+      return JSON.parse(text) as T;
+    } catch {
+      throw new HttpError("Malformed JSON body", 400, "INVALID_JSON");
+    }
+  }
+
+  if (contentType.startsWith("text/") || contentType === "") {
+    return { text } as T;
+  }
+
+  throw new HttpError(
+    `Unsupported Content-Type: ${contentType}`,
+    415,
+    "UNSUPPORTED_MEDIA_TYPE",
+  );
+}
+
+export interface RouteContextOptions {
+  limits?: BodyLimits;
+  cookieManager?: CookieManager; // Used by context.response.cookie()
+}
+
+/**
+ * Create a RouteContext with lazy `query`, cached `body()` and a
+ * `response` builder
+ */
+export function createRouteContext(
+  init: Pick<RouteContext, "request" | "framework"> & Partial<RouteContext>,
+  options: RouteContextOptions = {},
+): RouteContext {
+  const limits = options.limits ?? DEFAULT_BODY_LIMITS;
+  const url = init.url ?? new URL(init.request.url);
+  let query: RequestQuery | undefined;
+  let body: Promise<unknown> | undefined;
+
+  const context: RouteContext = {
+    response: new ResponseBuilder(options.cookieManager),
+    ...init,
+    url,
+  };
+
+  Object.defineProperty(context, "query", {
+    get: () => query ??= new WebliskQuery(url.searchParams),
+    enumerable: true,
+    configurable: true,
+  });
+  context.body = <T = RequestBody>() =>
+    (body ??= parseRequestBody(init.request, limits)) as Promise<T>;
+
+  return context;
+}
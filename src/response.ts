@@ -0,0 +1,146 @@
+/**
+ * Weblisk Response Module
+ * Response builder exposed as `context.response` for status, headers,
+ * cookies and redirects set from data(), method handlers and middleware
+ */
+
+import { CookieManager, type CookieOptions } from "./cookies.ts";
+import { defaultConfig } from "./config.ts";
+import { type RouteResponse, WebliskError } from "./types.ts";
+
+/**
+ * Collects response settings and applies them to the route's Response
+ */
+export class ResponseBuilder implements RouteResponse {
+  private statusCode?: number;
+  private headers = new Headers();
+  private cookies: string[] = [];
+  private location?: string;
+  private redirectStatus = 302;
+  private cookieDefaults: CookieOptions;
+
+  constructor(
+    private cookieManager: CookieManager = new CookieManager(
+      defaultConfig.session,
+    ),
+  ) {
+    const session = cookieManager.getConfig();
+    this.cookieDefaults = {
+      path: "/",
+      httpOnly: true,
+      secure: session.cookieSecure,
+      sameSite: session.cookieSameSite,
+    };
+  }
+
+  /**
+   * Set the status code for rendered pages and non-Response handler results
+   */
+  status(code: number): ResponseBuilder {
+    if (!Number.isInteger(code) || code < 200 || code > 599) {
+      throw new WebliskError(
+        `Invalid response status: ${code}`,
+        "INVALID_STATUS",
+        { status: code },
+      );
+    }
+    this.statusCode = code;
+    return this;
+  }
+
+  /**
+   * Set a response header (replaces any header of the same name)
+   */
+  header(name: string, value: string): ResponseBuilder {
+    this.headers.set(name, value);
+    return this;
+  }
+
+  /**
+   * Set a cookie (defaults: Path=/, HttpOnly, session Secure/SameSite config)
+   */
+  cookie(
+    name: string,
+    value: string,
+    options: CookieOptions = {},
+  ): ResponseBuilder {
+    if (!CookieManager.isValidCookieName(name)) {
+      throw new WebliskError(`Invalid cookie name: ${name}`, "INVALID_COOKIE", {
+        name,
+      });
+    }
+    this.cookies.push(
+      this.cookieManager.createCookie(name, value, {
+        ...this.cookieDefaults,
+        ...options,
+      }),
+    );
+    return this;
+  }
+
+  /**
+   * Expire a cookie in the browser
+   */
+  deleteCookie(name: string, options: CookieOptions = {}): ResponseBuilder {
+    this.cookies.push(
+      this.cookieManager.createDeleteCookie(name, {
+        ...this.cookieDefaults,
+        ...options,
+      }),
+    );
+    return this;
+  }
+
+  /**
+   * Redirect instead of rendering (302 by default)
+   */
+  redirect(location: string, status = 302): ResponseBuilder {
+    if (![301, 302, 303, 307, 308].includes(status)) {
+      throw new WebliskError(
+        `Invalid redirect status: ${status}`,
+        "INVALID_STATUS",
+        { status },
+      );
+    }
+    this.location = location;
+    this.redirectStatus = status;
+    return this;
+  }
+
+  getStatus(): number | undefined {
+    return this.statusCode;
+  }
+
+  isRedirect(): boolean {
+    return this.location !== undefined;
+  }
+
+  /**
+   * Apply headers, cookies and any redirect to the final Response
+   */
+  apply(response: Response): Response {
+    const isEmpty = !this.location && this.cookies.length === 0 &&
+      [...this.headers.keys()].length === 0;
+    if (isEmpty) return response;
+
+    const headers = new Headers(response.headers);
+    for (const [name, value] of this.headers) {
+      headers.set(name, value);
+    }
+    for (const cookie of this.cookies) {
+      headers.append("Set-Cookie", cookie);
+    }
+
+    if (this.location) {
+      headers.set("Location", this.location);
+      headers.delete("Content-Type");
+      return new Response(null, { status: this.redirectStatus, headers });
+    }
+
+    return new Response(response.body, {
+      status: response.status,
+      statusText: response.statusText,
+      headers,
+    });
+  }
+}
@@ -9,6 +9,10 @@
  * compliance, and scalability requirements.
  */
 
+import type { RouteApiDocs } from "./openapi.ts";
+import type { RouteAccess } from "./authorization.ts";
+import type { WebhookOptions } from "./webhooks.ts";
+import type { BatchJobOptions } from "./jobs.ts";
 import type { WebliskFrameworkRouteConfig } from "./routes.ts";
 import type { RouteContext } from "./types.ts";
 
@@ -93,9 +97,10 @@ export interface SecurityConfig {
   cspPolicy?: string;
 
   // Access Control
-  ipWhitelist?: string[]; // IP address whitelist
+  ipWhitelist?: string[]; // Allowed addresses or CIDR ranges (IPv4/IPv6)
+  ipBlacklist?: string[]; // Blocked addresses or CIDR ranges
   geoBlocking?: string[]; // Blocked country codes
-  userAgentBlocking?: string[]; // Blocked user agent patterns
+  userAgentBlocking?: Array<string | RegExp>; // Blocked user agent patterns
 
   // Attack Protection
   ddosProtection?: boolean;
@@ -104,6 +109,7 @@ export interface SecurityConfig {
 
   // Authentication
   apiKeyValidation?: boolean;
+  apiKeyScopes?: string[]; // Scopes a key needs (with apiKeyValidation)
   jwtValidation?: boolean;
   oauth2Integration?: boolean;
   mfaRequired?: boolean; // Multi-factor authentication
@@ -599,6 +605,10 @@ export class RouteOptimizer {
   static requiresHighPerformance(type: RouteType): boolean {
     return ["public-api", "private-api", "microservice", "edge"].includes(type);
   }
+
+  static isApiType(type: RouteType): boolean {
+    return ["api", "public-api", "private-api"].includes(type);
+  }
 }
 
 // ===== INTEGRATION LAYER =====
@@ -641,11 +651,20 @@ export interface TypedRouteConfig extends WebliskFrameworkRouteConfig {
   // Route description for documentation
   description?: string;
 
+  // OpenAPI operation docs (schemas, query params, responses)
+  openapi?: RouteApiDocs;
+
   // Route versioning
   version?: string;
 
-  // Access control
-  access?: "public" | "authenticated" | "admin";
+  // Webhook receiver (signature, idempotency and background processing)
+  webhook?: WebhookOptions;
+
+  // Background job for batch routes (POST queues the body and answers 202)
+  job?: BatchJobOptions;
+
+  // Access control ("admin" routes default to "admin", others to "public")
+  access?: RouteAccess;
 }
 
 /**
@@ -971,21 +990,23 @@ export class TypedRouteRegistry {
     }
 
     // Check API route structure
-    if (config.type === "api") {
+    if (config.type && RouteOptimizer.isApiType(config.type)) {
       if (config.template) {
         errors.push(
           `Route ${path}: API routes should not have template functions`,
         );
       }
-      if (!config.data) {
+      if (!config.data && !config.get && !config.post) {
         errors.push(`Route ${path}: API routes should have data functions`);
       }
     }
 
     // Check form route requirements
     if (config.type === "form") {
-      if (!config.events) {
-        errors.push(`Route ${path}: Form routes should have event handlers`);
+      if (!config.events && !config.form) {
+        errors.push(
+          `Route ${path}: Form routes should have a form config or event handlers`,
+        );
       }
     }
 
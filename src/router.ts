@@ -0,0 +1,432 @@
+/**
+ * Weblisk Router Module
+ * Compiled trie-based route matching with params, constraints and wildcards
+ *
+ * Supported pattern syntax:
+ * - Static segments:     /about/team
+ * - Named params:        /users/:id
+ * - Optional params:     /docs/:lang?/intro
+ * - Regex constraints:   /users/:id(\\d+)
+ * - Typed constraints:   /users/:id<int>  (see ROUTE_PARAM_TYPES)
+ * - Catch-all wildcard:  /docs/*path  (one or more trailing segments)
+ *
+ * Precedence is deterministic: static > constrained param > param > wildcard,
+ * with backtracking when a more specific branch fails deeper in the path.
+ */
+
+import { WebliskError } from "./types.ts";
+
+/**
+ * Named constraint types usable as `:name<type>`
+ */
+export const ROUTE_PARAM_TYPES: Record<string, string> = {
+  int: "\\d+",
+  number: "-?\\d+(?:\\.\\d+)?",
+  uuid:
+    "[0-9a-fA-F]{8}-[0-9a-fA-F]{4}-[0-9a-fA-F]{4}-[0-9a-fA-F]{4}-[0-9a-fA-F]{12}",
+  slug: "[a-z0-9]+(?:-[a-z0-9]+)*",
+  alpha: "[a-zA-Z]+",
+  alnum: "[a-zA-Z0-9]+",
+};
+
+/**
+ * Parsed representation of a single pattern segment
+ */
+export interface RouteSegment {
+  type: "static" | "param" | "wildcard";
+  value: string; // Static text or parameter name
+  constraint?: string; // Regex source for constrained params
+  optional?: boolean;
+}
+
+/**
+ * Result of a successful route match
+ */
+export interface RouteMatch<T> {
+  value: T;
+  pattern: string;
+  params: Record<string, string>;
+}
+
+interface RouteEntry<T> {
+  pattern: string;
+  value: T;
+  paramNames: string[];
+}
+
+interface ParamBranch<T> {
+  constraint?: string;
+  regex?: RegExp;
+  node: RouterNode<T>;
+}
+
+interface RouterNode<T> {
+  staticChildren: Map<string, RouterNode<T>>;
+  paramChildren: ParamBranch<T>[];
+  wildcard?: RouteEntry<T>;
+  route?: RouteEntry<T>;
+}
+
+/**
+ * Trie-based router mapping URL patterns to values (route handlers)
+ */
+export class WebliskRouter<T> {
+  private root: RouterNode<T> = WebliskRouter.createNode();
+  private patterns = new Map<string, T>();
+
+  /**
+   * Register a pattern, replacing any previous registration of the same pattern
+   * Throws a ROUTE_CONFLICT error if a different pattern matches the same URLs
+   */
+  add(pattern: string, value: T): void {
+    const segments = WebliskRouter.parsePattern(pattern);
+    const variants = WebliskRouter.expandOptional(segments);
+
+    // Validate every variant before mutating the tree
+    const targets = variants.map((variant) => {
+      const existing = this.findEntry(variant);
+      if (existing && existing.pattern !== pattern) {
+        throw new WebliskError(
+          `Route pattern "${pattern}" conflicts with "${existing.pattern}"`,
+          "ROUTE_CONFLICT",
+          { pattern, existing: existing.pattern },
+        );
+      }
+      return variant;
+    });
+
+    if (this.patterns.has(pattern)) {
+      this.remove(pattern);
+    }
+
+    for (const variant of targets) {
+      this.insert(variant, { pattern, value, paramNames: [] });
+    }
+    this.patterns.set(pattern, value);
+  }
+
+  /**
+   * Remove a previously registered pattern
+   */
+  remove(pattern: string): boolean {
+    if (!this.patterns.has(pattern)) return false;
+
+    const variants = WebliskRouter.expandOptional(
+      WebliskRouter.parsePattern(pattern),
+    );
+    for (const variant of variants) {
+      const node = this.walk(variant, false);
+      if (!node) continue;
+
+      const last = variant[variant.length - 1];
+      if (last?.type === "wildcard") {
+        if (node.wildcard?.pattern === pattern) node.wildcard = undefined;
+      } else if (node.route?.pattern === pattern) {
+        node.route = undefined;
+      }
+    }
+
+    this.patterns.delete(pattern);
+    return true;
+  }
+
+  /**
+   * Check if a pattern is registered
+   */
+  has(pattern: string): boolean {
+    return this.patterns.has(pattern);
+  }
+
+  /**
+   * Get all registered patterns
+   */
+  list(): string[] {
+    return Array.from(this.patterns.keys());
+  }
+
+  /**
+   * Match a URL pathname against the registered patterns
+   */
+  match(pathname: string): RouteMatch<T> | null {
+    const segments = WebliskRouter.splitPath(pathname);
+    const values: string[] = [];
+    const entry = this.matchNode(this.root, segments, 0, values);
+    if (!entry) return null;
+
+    const params: Record<string, string> = {};
+    entry.paramNames.forEach((name, index) => {
+      params[name] = values[index];
+    });
+
+    return { value: entry.value, pattern: entry.pattern, params };
+  }
+
+  /**
+   * Clear all registered patterns
+   */
+  clear(): void {
+    this.root = WebliskRouter.createNode();
+    this.patterns.clear();
+  }
+
+  /**
+   * Parse a route pattern into segments
+   */
+  static parsePattern(pattern: string): RouteSegment[] {
+    const parts = WebliskRouter.splitPath(pattern);
+
+    return parts.map((part, index) => {
+      if (part.startsWith("*")) {
+        if (index !== parts.length - 1) {
+          throw new WebliskError(
+            `Wildcard must be the last segment in route pattern "${pattern}"`,
+            "INVALID_ROUTE",
+            { pattern },
+          );
+        }
+        return { type: "wildcard", value: part.slice(1) || "*" };
+      }
+
+      if (part.startsWith(":")) {
+        const match = part.match(
+          /^:([A-Za-z_][A-Za-z0-9_]*)(?:<([A-Za-z]+)>)?(?:\((.+)\))?(\?)?$/,
+        );
+        if (!match) {
+          throw new WebliskError(
+            `Invalid parameter "${part}" in route pattern "${pattern}"`,
+            "INVALID_ROUTE",
+            { pattern },
+          );
+        }
+
+        const [, name, typeName, regexSource, optional] = match;
+        let constraint = regexSource;
+        if (typeName) {
+          constraint = ROUTE_PARAM_TYPES[typeName];
+          if (!constraint) {
+            throw new WebliskError(
+              `Unknown parameter type "${typeName}" in route pattern "${pattern}"`,
+              "INVALID_ROUTE",
+              { pattern, available: Object.keys(ROUTE_PARAM_TYPES) },
+            );
+          }
+        }
+
+        return {
+          type: "param",
+          value: name,
+          constraint,
+          optional: !!optional,
+        };
+      }
+
+      return { type: "static", value: part };
+    });
+  }
+
+  /**
+   * Build a concrete path from a pattern and params (the reverse of match)
+   * Missing optional params are left out; values must satisfy constraints.
+   */
+  static buildPath(pattern: string, params: Record<string, string>): string {
+    const parts: string[] = [];
+
+    for (const segment of WebliskRouter.parsePattern(pattern)) {
+      if (segment.type === "static") {
+        parts.push(segment.value);
+        continue;
+      }
+
+      const value = params[segment.value];
+      if (value === undefined || value === "") {
+        if (segment.optional) continue;
+        throw new WebliskError(
+          `Missing parameter "${segment.value}" for route pattern "${pattern}"`,
+          "INVALID_ROUTE",
+          { pattern, params },
+        );
+      }
+
+      if (segment.type === "wildcard") {
+        parts.push(...value.split("/").filter(Boolean).map(encodeURIComponent));
+        continue;
+      }
+
+      if (
+        segment.constraint &&
+        !new RegExp(`^(?:${segment.constraint})$`).test(value)
+      ) {
+        throw new WebliskError(
+          `Parameter "${segment.value}" does not match its constraint in route pattern "${pattern}"`,
+          "INVALID_ROUTE",
+          { pattern, params },
+        );
+      }
+      parts.push(encodeURIComponent(value));
+    }
+
+    return `/${parts.join("/")}`;
+  }
+
+  /**
+   * Expand optional params into every concrete segment combination
+   */
+  static expandOptional(segments: RouteSegment[]): RouteSegment[][] {
+    let variants: RouteSegment[][] = [[]];
+
+    for (const segment of segments) {
+      if (segment.optional) {
+        variants = [
+          ...variants.map((variant) => [...variant, segment]),
+          ...variants,
+        ];
+      } else {
+        variants = variants.map((variant) => [...variant, segment]);
+      }
+    }
+
+    return variants;
+  }
+
+  /**
+   * Split a path into non-empty segments
+   */
+  private static splitPath(path: string): string[] {
+    return path.split("/").filter((segment) => segment.length > 0);
+  }
+
+  private static createNode<T>(): RouterNode<T> {
+    return { staticChildren: new Map(), paramChildren: [] };
+  }
+
+  /**
+   * Find the entry currently registered for a concrete segment list
+   */
+  private findEntry(segments: RouteSegment[]): RouteEntry<T> | undefined {
+    const node = this.walk(segments, false);
+    if (!node) return undefined;
+
+    const last = segments[segments.length - 1];
+    return last?.type === "wildcard" ? node.wildcard : node.route;
+  }
+
+  /**
+   * Walk (and optionally create) the node path for a segment list
+   * Wildcards stop at their parent node, where they are stored
+   */
+  private walk(
+    segments: RouteSegment[],
+    create: boolean,
+  ): RouterNode<T> | undefined {
+    let node = this.root;
+
+    for (const segment of segments) {
+      if (segment.type === "wildcard") break;
+
+      if (segment.type === "static") {
+        let child = node.staticChildren.get(segment.value);
+        if (!child) {
+          if (!create) return undefined;
+          child = WebliskRouter.createNode();
+          node.staticChildren.set(segment.value, child);
+        }
+        node = child;
+        continue;
+      }
+
+      let branch = node.paramChildren.find((candidate) =>
+        candidate.constraint === segment.constraint
+      );
+      if (!branch) {
+        if (!create) return undefined;
+        branch = {
+          constraint: segment.constraint,
+          regex: segment.constraint
+            ? new RegExp(`^(?:${segment.constraint})$`)
+            : undefined,
+          node: WebliskRouter.createNode(),
+        };
+        node.paramChildren.push(branch);
+        // Constrained params are tried before unconstrained ones
+        node.paramChildren.sort((a, b) =>
+          Number(!a.constraint) - Number(!b.constraint)
+        );
+      }
+      node = branch.node;
+    }
+
+    return node;
+  }
+
+  /**
+   * Insert a concrete segment list into the trie
+   */
+  private insert(segments: RouteSegment[], entry: RouteEntry<T>): void {
+    const node = this.walk(segments, true)!;
+    const paramNames = segments
+      .filter((segment) => segment.type !== "static")
+      .map((segment) => segment.value);
+    const stored = { ...entry, paramNames };
+
+    const last = segments[segments.length - 1];
+    if (last?.type === "wildcard") {
+      node.wildcard = stored;
+    } else {
+      node.route = stored;
+    }
+  }
+
+  /**
+   * Depth-first match with backtracking (static > param > wildcard)
+   */
+  private matchNode(
+    node: RouterNode<T>,
+    segments: string[],
+    index: number,
+    values: string[],
+  ): RouteEntry<T> | null {
+    if (index === segments.length) {
+      return node.route ?? null;
+    }
+
+    const segment = segments[index];
+
+    const staticChild = node.staticChildren.get(segment);
+    if (staticChild) {
+      const result = this.matchNode(staticChild, segments, index + 1, values);
+      if (result) return result;
+    }
+
+    const decoded = WebliskRouter.decode(segment);
+    for (const branch of node.paramChildren) {
+      if (branch.regex && !branch.regex.test(decoded)) continue;
+
+      values.push(decoded);
+      const result = this.matchNode(branch.node, segments, index + 1, values);
+      if (result) return result;
+      values.pop();
+    }
+
+    if (node.wildcard) {
+      values.push(
+        segments.slice(index).map((part) => WebliskRouter.decode(part)).join(
+          "/",
+        ),
+      );
+      return node.wildcard;
+    }
+
+    return null;
+  }
+
+  /**
+   * Decode a path segment, keeping malformed escapes as-is
+   */
+  private static decode(segment: string): string {
+    try {
+      return decodeURIComponent(segment);
+    } catch {
+      return segment;
+    }
+  }
+}
@@ -3,10 +3,41 @@
  * Contains all route-related classes, interfaces, and functionality
  */
 
-import { type RouteContext, WebliskError } from "./types.ts";
+import {
+  HttpError,
+  type RouteContext,
+  RouteDataError,
+  WebliskError,
+} from "./types.ts";
 import { css, html, js } from "./helpers.ts";
 // import type { security } from "./security.ts";
 import { getComponentStyles } from "./components.ts";
+import { logger } from "./logger.ts";
+import type { Middleware } from "./middleware.ts";
+import {
+  NEGOTIABLE_TYPES,
+  negotiateMediaType,
+  pickFields,
+  type RouteNegotiationConfig,
+  varyOnAccept,
+} from "./negotiation.ts";
+import { DeferredContent } from "./streaming.ts";
+import { WebliskCache } from "./cache.ts";
+import { hashContent, type RouteCachePolicy } from "./page-cache.ts";
+import type { SitemapRouteOptions } from "./sitemap.ts";
+import type { RateLimitPolicy } from "./rate-limit.ts";
+import { AccessFilter } from "./access-filter.ts";
+import type { RouteAccess } from "./authorization.ts";
+import {
+  ROUTE_OPTIMIZATION_PRESETS,
+  ROUTE_OPTIMIZATIONS,
+  type TypedRouteConfig,
+} from "./route-types.ts";
+import {
+  type FormProcessorConfig,
+  type FormState,
+  WebliskFormProcessor,
+} from "./forms.ts";
 
 // Type for component registry access
 type GlobalWithRegistry = typeof globalThis & {
@@ -83,6 +114,39 @@ export interface WebliskHtmlConfig {
   appContainerId?: string;
   appContainerClass?: string;
 }
+
+/**
+ * HTTP methods that can have dedicated handlers on a route config
+ */
+export type RouteMethod = "get" | "post" | "put" | "patch" | "delete";
+
+export const ROUTE_METHODS: RouteMethod[] = [
+  "get",
+  "post",
+  "put",
+  "patch",
+  "delete",
+];
+
+/**
+ * Value returned from a method handler
+ * - Response: sent as-is
+ * - string: sent as text/html
+ * - object/array: serialized as JSON
+ * - null/undefined: 204 No Content
+ */
+export type RouteHandlerResult =
+  | Response
+  | string
+  | Record<string, unknown>
+  | unknown[]
+  | null
+  | undefined;
+
+export type RouteMethodHandler = (
+  context: RouteContext,
+) => Promise<RouteHandlerResult> | RouteHandlerResult;
+
 /**
  * Weblisk Framework Route Configuration Interface
  */
@@ -96,10 +160,13 @@ export interface WebliskFrameworkRouteConfig {
   // Client-side enhancement code
   clientCode?: (data: Record<string, unknown>) => string | Promise<string>;
 
-  // Server-side data preparation
+  // Server-side data preparation (return a Response to bypass rendering)
   data?: (
     context: RouteContext,
-  ) => Promise<Record<string, unknown>> | Record<string, unknown>;
+  ) =>
+    | Promise<Record<string, unknown> | Response>
+    | Record<string, unknown>
+    | Response;
 
   // WebSocket event handlers
   events?: Record<
@@ -116,6 +183,37 @@ export interface WebliskFrameworkRouteConfig {
   // Route metadata and HTML configuration
   meta?: WebliskMeta;
   html?: WebliskHtmlConfig;
+
+  // HTTP method handlers (GET falls back to page rendering when omitted)
+  get?: RouteMethodHandler;
+  post?: RouteMethodHandler;
+  put?: RouteMethodHandler;
+  patch?: RouteMethodHandler;
+  delete?: RouteMethodHandler;
+
+  // Route-level middleware, run after the global chain (see app.use)
+  middleware?: Middleware[];
+
+  // Form handling for the form-submit WebSocket event and native POSTs
+  form?: FormProcessorConfig;
+
+  // Serve the data() result as JSON/NDJSON to clients whose Accept header
+  // prefers it (framework and globalData values are never included)
+  negotiate?: boolean | RouteNegotiationConfig;
+
+  // Stream the page, sending context.defer() content as it resolves
+  stream?: boolean;
+
+  // Params to prerender a dynamic route with during static export
+  staticPaths?: () =>
+    | Promise<Record<string, string>[]>
+    | Record<string, string>[];
+
+  // Sitemap changefreq/priority/lastmod overrides, or false to leave out
+  sitemap?: false | SitemapRouteOptions;
+
+  // Per-route request limit (false disables the API type's default limit)
+  rateLimit?: false | RateLimitPolicy;
 }
 
 /**
@@ -165,12 +263,38 @@ export interface WebliskAppConfig {
 export class WebliskRoute {
   protected config: WebliskFrameworkRouteConfig;
   protected userConfig: Partial<WebliskFrameworkRouteConfig>;
+  protected formProcessor?: WebliskFormProcessor;
+  protected renderCache?: WebliskCache;
+  protected accessFilter: AccessFilter | null;
   protected static appConfig: WebliskAppConfig = {};
 
   constructor(config: Partial<WebliskFrameworkRouteConfig> = {}) {
     // Store user config to avoid circular references
     this.userConfig = config;
 
+    // Server-side form handling shared by WebSocket and no-JS submissions
+    if (config.form) {
+      this.formProcessor = new WebliskFormProcessor(config.form);
+    }
+
+    // IP and user agent rules (malformed rules throw at registration)
+    this.accessFilter = AccessFilter.fromRules(
+      (config as TypedRouteConfig).advanced?.security,
+    );
+
+    // Rendered styles/documents are reused by the "structure" and "template"
+    // cache strategies ("full" pages are cached by the framework)
+    const cachePolicy = this.getCachePolicy();
+    if (
+      cachePolicy.strategy === "structure" ||
+      cachePolicy.strategy === "template"
+    ) {
+      this.renderCache = new WebliskCache({
+        maxCacheSize: 100,
+        ...(cachePolicy.ttl ? { ttl: cachePolicy.ttl } : {}),
+      });
+    }
+
     // Merge with framework defaults
     this.config = {
       // Framework default template structure - ALWAYS use defaultHtmlTemplate
@@ -283,7 +407,7 @@ export class WebliskRoute {
             )} ${this.buildCustomMeta(meta.custom)}
 
           <style>
-          ${await this.buildStyles(data)}
+          ${await this.renderStyles(data)}
           </style>
         </head>
         <body ${htmlConfig.bodyClass
@@ -887,6 +1011,11 @@ export class WebliskRoute {
             }
           }
           
+          // Background job status and progress (weblisk.on('job-update', ...))
+          if (message.type === 'job-update' && this.eventHandlers['job-update']) {
+            this.eventHandlers['job-update'].forEach(handler => handler(message.job));
+          }
+          
           // Handle real-time component updates
           if (message.type === 'component-update') {
             this.updateComponent(message.componentId, message.props);
@@ -949,7 +1078,7 @@ export class WebliskRoute {
    */
   protected async buildData(
     context: RouteContext,
-  ): Promise<Record<string, unknown>> {
+  ): Promise<Record<string, unknown> | Response> {
     const frameworkData = {
       timestamp: new Date().toLocaleString(),
       sessionId: context.sessionId || "",
@@ -957,15 +1086,64 @@ export class WebliskRoute {
     };
 
     const appData = WebliskRoute.appConfig.globalData
-      ? await WebliskRoute.appConfig.globalData(context)
+      ? await WebliskRoute.runDataFunction(
+        "globalData",
+        WebliskRoute.appConfig.globalData,
+        context,
+      )
+      : {};
+
+    // Form state for routes that handle submissions
+    const formData = this.formProcessor
+      ? {
+        form: context.form ||
+          { submitted: false, errors: {}, values: {} } satisfies FormState,
+      }
       : {};
 
     // Get user route-specific data (only if not the default framework data)
     const userRouteData = this.userConfig.data
-      ? await this.userConfig.data(context)
+      ? await WebliskRoute.runDataFunction(
+        "data",
+        this.userConfig.data,
+        context,
+      )
       : {};
 
-    return { ...frameworkData, ...appData, ...userRouteData };
+    // A Response from data() replaces the rendered page
+    if (userRouteData instanceof Response) return userRouteData;
+    if (appData instanceof Response) return appData;
+
+    return { ...frameworkData, ...appData, ...formData, ...userRouteData };
+  }
+
+  /**
+   * Run a data function, tagging failures with the function that threw
+   * (HttpErrors pass through so they keep their status)
+   */
+  protected static async runDataFunction(
+    name: string,
+    dataFunction: (
+      context: RouteContext,
+    ) =>
+      | Promise<Record<string, unknown> | Response>
+      | Record<string, unknown>
+      | Response,
+    context: RouteContext,
+  ): Promise<Record<string, unknown> | Response> {
+    try {
+      return await dataFunction(context);
+    } catch (error) {
+      if (error instanceof HttpError) throw error;
+      throw new RouteDataError(
+        `${name}() failed: ${
+          error instanceof Error ? error.message : String(error)
+        }`,
+        name,
+        error,
+        { path: context.url.pathname },
+      );
+    }
   }
 
   /**
@@ -983,9 +1161,25 @@ export class WebliskRoute {
     };
 
     const appEvents = WebliskRoute.appConfig.globalEvents || {};
+    const formEvents: Record<
+      string,
+      (data: Record<string, unknown>, context: RouteContext) => unknown
+    > = {};
+    if (this.formProcessor) {
+      const processor = this.formProcessor;
+      formEvents[this.userConfig.form?.event || "form-submit"] = (
+        data,
+        context,
+      ) => processor.processFormData(data, context);
+    }
     const userRouteEvents = this.userConfig.events || {};
 
-    return { ...frameworkEvents, ...appEvents, ...userRouteEvents };
+    return {
+      ...frameworkEvents,
+      ...appEvents,
+      ...formEvents,
+      ...userRouteEvents,
+    };
   }
 
   /**
@@ -1023,6 +1217,13 @@ export class WebliskRoute {
     return merged;
   }
 
+  /**
+   * Get the merged meta the page is rendered with
+   */
+  getMeta(): WebliskMeta {
+    return this.buildMeta();
+  }
+
   /**
    * Get the original user configuration without framework defaults
    */
@@ -1031,11 +1232,198 @@ export class WebliskRoute {
     return this.userConfig || {};
   }
 
+  /**
+   * Get the route-level middleware
+   */
+  getMiddleware(): Middleware[] {
+    return this.getUserConfig().middleware || [];
+  }
+
   /**
    * Render the complete route by building the final HTML
    */
   async render(context: RouteContext): Promise<string> {
+    const deferred = WebliskRoute.prepareDeferred(context);
+    const data = await this.buildData(context);
+    if (data instanceof Response) {
+      throw new WebliskError(
+        "data() returned a Response where HTML was expected (use renderPage)",
+        "UNEXPECTED_RESPONSE",
+        { path: context.url.pathname },
+      );
+    }
+    return await deferred.inline(await this.renderTemplate(data));
+  }
+
+  /**
+   * Render the page as a Response, honouring a Response returned by data()
+   * and the status/redirect set on `context.response`
+   * Streaming routes send the page before context.defer() content resolves.
+   */
+  async renderPage(context: RouteContext, status = 200): Promise<Response> {
+    const deferred = WebliskRoute.prepareDeferred(context);
     const data = await this.buildData(context);
+    if (data instanceof Response) return data;
+
+    // Skip the template when data() already decided to redirect
+    if (context.response?.isRedirect()) {
+      return new Response(null);
+    }
+
+    const html = await this.renderTemplate(data);
+    const body = this.userConfig.stream && deferred.size > 0
+      ? deferred.stream(html)
+      : await deferred.inline(html);
+    return new Response(body, {
+      status: context.response?.getStatus() ?? status,
+      headers: { "Content-Type": "text/html" },
+    });
+  }
+
+  /**
+   * Give the context a defer() bound to a fresh set of placeholders
+   */
+  protected static prepareDeferred(context: RouteContext): DeferredContent {
+    const deferred = new DeferredContent();
+    context.defer = (content, options) => deferred.defer(content, options);
+    return deferred;
+  }
+
+  /**
+   * Run the template for already-built data, reusing the document rendered
+   * for identical data on routes with the "template" cache strategy
+   */
+  protected async renderTemplate(
+    data: Record<string, unknown>,
+  ): Promise<string> {
+    if (!this.renderCache || this.getCachePolicy().strategy !== "template") {
+      return await this.runTemplate(data);
+    }
+
+    let key: string;
+    try {
+      // The render timestamp changes every second and is left out
+      key = await hashContent(JSON.stringify({ ...data, timestamp: null }));
+    } catch {
+      return await this.runTemplate(data); // Not serializable
+    }
+
+    const cached = this.renderCache.getCachedTemplate(key);
+    if (cached !== null) return cached;
+
+    const html = await this.runTemplate(data);
+    this.renderCache.cacheTemplate(key, html);
+    return html;
+  }
+
+  /**
+   * Build styles, reusing them for data of the same shape on routes with
+   * the "structure" cache strategy
+   */
+  protected async renderStyles(data: Record<string, unknown>): Promise<string> {
+    if (!this.renderCache || this.getCachePolicy().strategy !== "structure") {
+      return await this.buildStyles(data);
+    }
+
+    const cached = this.renderCache.getCachedStructure("styles", data);
+    if (cached) return cached.styles;
+
+    const styles = await this.buildStyles(data);
+    this.renderCache.cacheStructure("styles", data, {
+      template: "",
+      styles,
+      clientCode: "",
+      timestamp: Date.now(),
+      hash: "",
+    });
+    return styles;
+  }
+
+  /**
+   * Get the cache strategy from the route type preset, overridden by
+   * `optimization.cacheStrategy`; the TTL comes from `advanced.caching`
+   * or the type's caching defaults
+   */
+  getCachePolicy(): RouteCachePolicy {
+    const config = this.userConfig as TypedRouteConfig;
+    const caching = config.advanced?.caching ??
+      (config.type ? ROUTE_OPTIMIZATIONS[config.type]?.caching : undefined);
+
+    return {
+      strategy: config.optimization?.cacheStrategy ??
+        (config.type
+          ? ROUTE_OPTIMIZATION_PRESETS[config.type]?.cacheStrategy
+          : undefined) ??
+        "none",
+      ttl: caching?.enabled && caching.ttl > 0 ? caching.ttl * 1000 : undefined,
+    };
+  }
+
+  /**
+   * Get the route's rate limit: `rateLimit`, else `advanced.apiManagement`
+   * or the route type's API management defaults (a token bucket when a
+   * burst limit is set)
+   */
+  getRateLimitPolicy(): RateLimitPolicy | null {
+    const config = this.userConfig as TypedRouteConfig;
+    if (config.rateLimit !== undefined) return config.rateLimit || null;
+
+    const limit = config.advanced?.apiManagement?.rateLimit ??
+      (config.type
+        ? ROUTE_OPTIMIZATIONS[config.type]?.apiManagement?.rateLimit
+        : undefined);
+    if (!limit) return null;
+    return {
+      ...limit,
+      algorithm: limit.burstLimit ? "token-bucket" : "sliding-window",
+    };
+  }
+
+  /**
+   * Get the route's IP and user agent filter (`advanced.security`)
+   */
+  getAccessFilter(): AccessFilter | null {
+    return this.accessFilter;
+  }
+
+  /**
+   * Get the route's access rule (`access`, or "admin" for admin routes)
+   */
+  getAccess(): RouteAccess {
+    const config = this.userConfig as TypedRouteConfig;
+    return config.access ?? (config.type === "admin" ? "admin" : "public");
+  }
+
+  /**
+   * Check if the route is rendered during static export (`prerender` from
+   * the route type preset or `optimization`, or a `staticPaths()` hook)
+   */
+  isPrerenderable(): boolean {
+    const config = this.userConfig as TypedRouteConfig;
+    if (config.optimization?.prerender !== undefined) {
+      return config.optimization.prerender;
+    }
+    if (config.staticPaths) return true;
+    return config.type
+      ? ROUTE_OPTIMIZATION_PRESETS[config.type]?.prerender ?? false
+      : false;
+  }
+
+  /**
+   * Get the params to prerender a dynamic route with
+   */
+  async getStaticPaths(): Promise<Record<string, string>[]> {
+    return this.userConfig.staticPaths
+      ? await this.userConfig.staticPaths()
+      : [];
+  }
+
+  /**
+   * Run the template for already-built data
+   */
+  protected async runTemplate(
+    data: Record<string, unknown>,
+  ): Promise<string> {
     const templateResult = this.config.template!(data);
 
     // Handle both sync and async templates
@@ -1045,6 +1433,224 @@ export class WebliskRoute {
     return templateResult;
   }
 
+  /**
+   * Check if this route renders a page for GET requests
+   * Routes that only declare method handlers (e.g. `{ post }`) are not pages
+   */
+  isPageRoute(): boolean {
+    const config = this.userConfig;
+    if (config.template || config.data) return true;
+    return !ROUTE_METHODS.some((method) => config[method]);
+  }
+
+  /**
+   * Get the HTTP methods this route responds to (used for the Allow header)
+   */
+  getAllowedMethods(): string[] {
+    const methods: string[] = [];
+
+    if (this.userConfig.get || this.isPageRoute()) {
+      methods.push("GET", "HEAD");
+    }
+
+    for (const method of ROUTE_METHODS) {
+      if (
+        method !== "get" &&
+        (this.userConfig[method] || (method === "post" && this.formProcessor))
+      ) {
+        methods.push(method.toUpperCase());
+      }
+    }
+
+    methods.push("OPTIONS");
+    return methods;
+  }
+
+  /**
+   * Handle an HTTP request for this route and build the response
+   */
+  async handleRequest(context: RouteContext): Promise<Response> {
+    const method = context.request.method.toUpperCase();
+    const allowedMethods = this.getAllowedMethods();
+
+    if (method === "OPTIONS") {
+      return new Response(null, {
+        status: 204,
+        headers: { "Allow": allowedMethods.join(", ") },
+      });
+    }
+
+    if (!allowedMethods.includes(method)) {
+      return this.methodNotAllowed(allowedMethods);
+    }
+
+    const methodResponse = await this.handleMethod(method, context);
+
+    // Headers, cookies and redirects set through context.response
+    const response = context.response
+      ? context.response.apply(methodResponse)
+      : methodResponse;
+
+    // HEAD responses share GET headers but never carry a body
+    if (method === "HEAD") {
+      return new Response(null, {
+        status: response.status,
+        statusText: response.statusText,
+        headers: response.headers,
+      });
+    }
+
+    return response;
+  }
+
+  /**
+   * Build the 405 response for unsupported methods
+   */
+  protected methodNotAllowed(allowedMethods: string[]): Response {
+    return new Response("Method Not Allowed", {
+      status: 405,
+      headers: {
+        "Allow": allowedMethods.join(", "),
+        "Content-Type": "text/plain",
+      },
+    });
+  }
+
+  /**
+   * Dispatch to the method handler, falling back to page rendering for GET
+   */
+  protected async handleMethod(
+    method: string,
+    context: RouteContext,
+  ): Promise<Response> {
+    const key =
+      (method === "HEAD" ? "get" : method.toLowerCase()) as RouteMethod;
+    const handler = this.userConfig[key];
+
+    if (handler) {
+      return WebliskRoute.toResponse(
+        await handler(context),
+        context.response?.getStatus(),
+      );
+    }
+
+    if (method === "POST" && this.formProcessor) {
+      return await this.handleFormSubmission(this.formProcessor, context);
+    }
+
+    if (this.userConfig.negotiate) {
+      return varyOnAccept(await this.renderNegotiated(context));
+    }
+
+    return await this.renderPage(context);
+  }
+
+  /**
+   * Serve the data() result as JSON (or a list field as NDJSON) when the
+   * Accept header prefers it, otherwise render the page
+   */
+  protected async renderNegotiated(context: RouteContext): Promise<Response> {
+    const options = typeof this.userConfig.negotiate === "object"
+      ? this.userConfig.negotiate
+      : {};
+    const offered: string[] = [NEGOTIABLE_TYPES.html, NEGOTIABLE_TYPES.json];
+    if (options.list) offered.push(NEGOTIABLE_TYPES.ndjson);
+
+    const type = negotiateMediaType(
+      context.request.headers.get("Accept"),
+      offered,
+    );
+    if (!type || type === NEGOTIABLE_TYPES.html) {
+      return await this.renderPage(context);
+    }
+
+    const deferred = WebliskRoute.prepareDeferred(context);
+    const result = this.userConfig.data
+      ? await WebliskRoute.runDataFunction(
+        "data",
+        this.userConfig.data,
+        context,
+      )
+      : {};
+    if (result instanceof Response) return result;
+
+    const data = pickFields(result, options.fields);
+    const status = context.response?.getStatus() ?? 200;
+    // Deferred HTML is resolved into the JSON strings it appears in
+    const jsonString = (value: string) => JSON.stringify(value).slice(1, -1);
+
+    if (type === NEGOTIABLE_TYPES.ndjson) {
+      const items = data[options.list!];
+      const lines = (Array.isArray(items) ? items : [])
+        .map((item) => `${JSON.stringify(item)}\n`)
+        .join("");
+      return new Response(await deferred.inline(lines, jsonString), {
+        status,
+        headers: { "Content-Type": NEGOTIABLE_TYPES.ndjson },
+      });
+    }
+
+    return new Response(
+      await deferred.inline(JSON.stringify(data), jsonString),
+      { status, headers: { "Content-Type": NEGOTIABLE_TYPES.json } },
+    );
+  }
+
+  /**
+   * Handle a native form POST: redirect on success (Post/Redirect/Get),
+   * otherwise re-render the page with errors and the submitted values
+   */
+  protected async handleFormSubmission(
+    processor: WebliskFormProcessor,
+    context: RouteContext,
+  ): Promise<Response> {
+    const result = await processor.processRequest(context);
+
+    if (result.isValid) {
+      const redirect = this.userConfig.form?.redirect;
+      const { result: submitResult, ...data } = result.data;
+      const location = typeof redirect === "function"
+        ? redirect(submitResult, data)
+        : redirect || `${context.url.pathname}${context.url.search}`;
+
+      return new Response(null, {
+        status: 303,
+        headers: { "Location": location },
+      });
+    }
+
+    context.form = {
+      submitted: true,
+      errors: result.errors,
+      values: result.data,
+    } satisfies FormState;
+
+    return await this.renderPage(context, 422);
+  }
+
+  /**
+   * Convert a method handler result into a Response
+   * (`status` applies to string and JSON results, not to returned Responses)
+   */
+  static toResponse(result: RouteHandlerResult, status = 200): Response {
+    if (result instanceof Response) {
+      return result;
+    }
+
+    if (result === null || result === undefined) {
+      return new Response(null, { status: 204 });
+    }
+
+    if (typeof result === "string") {
+      return new Response(result, {
+        status,
+        headers: { "Content-Type": "text/html" },
+      });
+    }
+
+    return json(result, { status });
+  }
+
   /**
    * Check if this route has a specific event handler
    */
@@ -1085,5 +1691,112 @@ export class WebliskRoute {
   }
 }
 
+/**
+ * WebliskApiRoute - JSON route used for `api`, `public-api` and `private-api`
+ * Serializes `data()` (or method handler) results instead of rendering HTML
+ */
+export class WebliskApiRoute extends WebliskRoute {
+  /**
+   * Dispatch to the method handler, falling back to `data()` for GET
+   */
+  protected override async handleMethod(
+    method: string,
+    context: RouteContext,
+  ): Promise<Response> {
+    const key =
+      (method === "HEAD" ? "get" : method.toLowerCase()) as RouteMethod;
+    const handler = this.userConfig[key];
+
+    try {
+      if (handler) {
+        return WebliskApiRoute.toJsonResponse(
+          await handler(context),
+          context.response?.getStatus(),
+        );
+      }
+
+      const data = this.userConfig.data
+        ? await this.userConfig.data(context)
+        : {};
+      return WebliskApiRoute.toJsonResponse(
+        data,
+        context.response?.getStatus(),
+      );
+    } catch (error) {
+      if (!(error instanceof HttpError)) {
+        logger.error(
+          "API route handler failed",
+          error instanceof Error ? error : new Error(String(error)),
+          { path: context.url.pathname, method },
+        );
+      }
+      return WebliskApiRoute.errorResponse(error);
+    }
+  }
+
+  /**
+   * Build a JSON 405 response for unsupported methods
+   */
+  protected override methodNotAllowed(allowedMethods: string[]): Response {
+    const response = WebliskApiRoute.errorResponse(
+      new HttpError("Method Not Allowed", 405, "METHOD_NOT_ALLOWED"),
+    );
+    response.headers.set("Allow", allowedMethods.join(", "));
+    return response;
+  }
+
+  /**
+   * Convert a handler result into a JSON Response
+   */
+  static toJsonResponse(result: RouteHandlerResult, status = 200): Response {
+    if (result instanceof Response) {
+      return result;
+    }
+
+    if (result === null || result === undefined) {
+      return new Response(null, { status: 204 });
+    }
+
+    return json(result, { status });
+  }
+
+  /**
+   * Build a structured JSON error body
+   * HttpError status/code/details are exposed, anything else becomes a 500
+   */
+  static errorResponse(error: unknown): Response {
+    if (error instanceof HttpError) {
+      return json({
+        error: {
+          status: error.status,
+          code: error.code,
+          message: error.message,
+          ...(error.details !== undefined ? { details: error.details } : {}),
+        },
+      }, { status: error.status });
+    }
+
+    return json({
+      error: {
+        status: 500,
+        code: "INTERNAL_ERROR",
+        message: "Internal Server Error",
+      },
+    }, { status: 500 });
+  }
+}
+
+/**
+ * Create a JSON Response with an optional status code and headers
+ */
+export function json(body: unknown, init: ResponseInit = {}): Response {
+  const headers = new Headers(init.headers);
+  if (!headers.has("Content-Type")) {
+    headers.set("Content-Type", "application/json");
+  }
+
+  return new Response(JSON.stringify(body), { ...init, headers });
+}
+
 // Single-file route configuration (kept for backward compatibility)
 export interface RouteConfig extends WebliskFrameworkRouteConfig {}
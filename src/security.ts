@@ -104,16 +104,32 @@ export class WebliskSecurity {
   }
 
   /**
-   * Extract client IP for rate limiting
+   * Extract the client IP from proxy headers, falling back to the
+   * connection's remote address (proxy headers are skipped when
+   * `trustProxy` is false, since any client can send them)
+   *
+   * Each proxy appends the address it got the request from to
+   * X-Forwarded-For, so only the last `proxyHops` entries come from
+   * trusted proxies; entries further left are whatever the client sent.
    */
-  private getClientIP(request: Request): string {
+  getClientIP(
+    request: Request,
+    remoteAddr?: string,
+    trustProxy = false,
+    proxyHops = 1,
+  ): string {
+    if (!trustProxy) return remoteAddr || "unknown";
+
     // Check various headers for real IP
     const forwardedFor = request.headers.get("X-Forwarded-For");
     const realIP = request.headers.get("X-Real-IP");
     const cfConnectingIP = request.headers.get("CF-Connecting-IP");
 
     if (forwardedFor) {
-      return forwardedFor.split(",")[0].trim();
+      const entries = forwardedFor.split(",").map((entry) => entry.trim())
+        .filter(Boolean);
+      const client = entries[Math.max(entries.length - proxyHops, 0)];
+      if (client) return client;
     }
     if (realIP) {
       return realIP;
@@ -123,7 +139,7 @@ export class WebliskSecurity {
     }
 
     // Fallback to connection info (may not be available in all environments)
-    return "unknown";
+    return remoteAddr || "unknown";
   }
 
   /**
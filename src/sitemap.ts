@@ -0,0 +1,321 @@
+/**
+ * Weblisk Sitemap Module
+ * Generated /sitemap.xml (split into a sitemap index past 50,000 URLs) and
+ * /robots.txt from the registered routes and configuration
+ *
+ * Page routes are listed at their `meta.canonical` URL when set; routes
+ * whose robots meta contains `noindex`, API routes and non-public routes
+ * are left out. Dynamic routes are expanded with their staticPaths() params.
+ */
+
+import { WebliskRouter } from "./router.ts";
+import {
+  ROUTE_OPTIMIZATION_PRESETS,
+  type RouteOptimization,
+  RouteOptimizer,
+  type TypedRouteConfig,
+} from "./route-types.ts";
+import type { WebliskRoute } from "./routes.ts";
+import { logger } from "./logger.ts";
+
+export type SitemapChangeFrequency =
+  | "always"
+  | "hourly"
+  | "daily"
+  | "weekly"
+  | "monthly"
+  | "yearly"
+  | "never";
+
+export interface SitemapEntry {
+  loc: string;
+  lastmod?: string; // W3C datetime, e.g. 2024-05-01
+  changefreq?: SitemapChangeFrequency;
+  priority?: number; // 0.0 - 1.0
+}
+
+/**
+ * Per-route sitemap overrides (`sitemap: false` leaves the route out)
+ */
+export type SitemapRouteOptions = Partial<Omit<SitemapEntry, "loc">>;
+
+export interface RobotsRule {
+  userAgent: string;
+  allow?: string[];
+  disallow?: string[]; // Omitted or empty allows everything
+  crawlDelay?: number; // Seconds
+}
+
+export interface SeoConfig {
+  siteUrl?: string; // Origin for absolute URLs (default: the request origin; needed to export a sitemap)
+  sitemap: boolean;
+  robotsTxt: boolean;
+  robots: RobotsRule[];
+}
+
+/**
+ * Protocol limit of URLs per sitemap file
+ */
+export const SITEMAP_URL_LIMIT = 50000;
+
+const FREQUENCY_HINTS: Record<
+  RouteOptimization["updateFrequency"],
+  { changefreq: SitemapChangeFrequency; priority: number }
+> = {
+  static: { changefreq: "monthly", priority: 0.5 },
+  low: { changefreq: "weekly", priority: 0.6 },
+  medium: { changefreq: "daily", priority: 0.7 },
+  high: { changefreq: "hourly", priority: 0.8 },
+  realtime: { changefreq: "always", priority: 0.9 },
+};
+
+function escapeXml(value: string): string {
+  return value
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&apos;");
+}
+
+/**
+ * Render a <urlset> document
+ */
+export function renderSitemap(entries: SitemapEntry[]): string {
+  const urls = entries.map((entry) => {
+    const fields = [`    <loc>${escapeXml(entry.loc)}</loc>`];
+    if (entry.lastmod) {
+      fields.push(`    <lastmod>${escapeXml(entry.lastmod)}</lastmod>`);
+    }
+    if (entry.changefreq) {
+      fields.push(`    <changefreq>${entry.changefreq}</changefreq>`);
+    }
+    if (entry.priority !== undefined) {
+      fields.push(`    <priority>${entry.priority.toFixed(1)}</priority>`);
+    }
+    return `  <url>\n${fields.join("\n")}\n  </url>`;
+  });
+
+  return `<?xml version="1.0" encoding="UTF-8"?>
+<urlset xmlns="http://www.sitemaps.org/schemas/sitemap/0.9">
+${urls.join("\n")}
+</urlset>
+`;
+}
+
+/**
+ * Render a <sitemapindex> document
+ */
+export function renderSitemapIndex(locations: string[]): string {
+  const sitemaps = locations.map((loc) =>
+    `  <sitemap>\n    <loc>${escapeXml(loc)}</loc>\n  </sitemap>`
+  );
+
+  return `<?xml version="1.0" encoding="UTF-8"?>
+<sitemapindex xmlns="http://www.sitemaps.org/schemas/sitemap/0.9">
+${sitemaps.join("\n")}
+</sitemapindex>
+`;
+}
+
+/**
+ * Render robots.txt rules, followed by the sitemap reference
+ */
+export function renderRobotsTxt(
+  rules: RobotsRule[],
+  sitemapUrl?: string,
+): string {
+  const groups = rules.map((rule) => {
+    const lines = [`User-agent: ${rule.userAgent}`];
+    for (const path of rule.allow || []) lines.push(`Allow: ${path}`);
+    if (rule.disallow?.length) {
+      for (const path of rule.disallow) lines.push(`Disallow: ${path}`);
+    } else if (!rule.allow?.length) {
+      lines.push("Disallow:");
+    }
+    if (rule.crawlDelay !== undefined) {
+      lines.push(`Crawl-delay: ${rule.crawlDelay}`);
+    }
+    return lines.join("\n");
+  });
+
+  if (sitemapUrl) groups.push(`Sitemap: ${sitemapUrl}`);
+  return `${groups.join("\n\n")}\n`;
+}
+
+/**
+ * Builds and serves the sitemap and robots.txt for an application
+ */
+export class SitemapGenerator {
+  constructor(private config: SeoConfig) {}
+
+  /**
+   * Answer /sitemap.xml, /sitemap-N.xml and /robots.txt (null for any
+   * other path, or when generation is disabled)
+   */
+  async handle(
+    request: Request,
+    routes: Array<[string, WebliskRoute]>,
+  ): Promise<Response | null> {
+    if (request.method !== "GET" && request.method !== "HEAD") return null;
+
+    const url = new URL(request.url);
+    const siteUrl = this.getSiteUrl(url.origin);
+    let body: string | null = null;
+    let contentType = "application/xml; charset=utf-8";
+
+    if (url.pathname === "/robots.txt" && this.config.robotsTxt) {
+      body = renderRobotsTxt(
+        this.config.robots,
+        this.config.sitemap ? `${siteUrl}/sitemap.xml` : undefined,
+      );
+      contentType = "text/plain; charset=utf-8";
+    } else if (this.config.sitemap) {
+      const part = url.pathname === "/sitemap.xml"
+        ? 0
+        : Number(url.pathname.match(/^\/sitemap-([1-9]\d*)\.xml$/)?.[1] ?? NaN);
+      if (!Number.isNaN(part)) {
+        body = this.renderPart(
+          await this.getEntries(routes, siteUrl),
+          part,
+          siteUrl,
+        );
+      }
+    }
+
+    if (body === null) return null;
+    return new Response(request.method === "HEAD" ? null : body, {
+      headers: { "Content-Type": contentType },
+    });
+  }
+
+  /**
+   * Paths of the generated files (for static export); none while sitemaps
+   * are on without `siteUrl`, since the sitemap and the robots.txt that
+   * references it would point at the render origin
+   */
+  async getPaths(routes: Array<[string, WebliskRoute]>): Promise<string[]> {
+    if (this.config.sitemap && !this.config.siteUrl) {
+      logger.warn(
+        "Not exporting sitemap.xml or robots.txt: seo.siteUrl is not set",
+      );
+      return [];
+    }
+
+    const paths: string[] = [];
+    if (this.config.robotsTxt) paths.push("/robots.txt");
+    if (this.config.sitemap) {
+      paths.push("/sitemap.xml");
+      const entries = await this.getEntries(
+        routes,
+        this.getSiteUrl(this.config.siteUrl!),
+      );
+      const parts = Math.ceil(entries.length / SITEMAP_URL_LIMIT);
+      if (parts > 1) {
+        for (let part = 1; part <= parts; part++) {
+          paths.push(`/sitemap-${part}.xml`);
+        }
+      }
+    }
+    return paths;
+  }
+
+  /**
+   * Collect sitemap entries for the indexable page routes
+   */
+  async getEntries(
+    routes: Array<[string, WebliskRoute]>,
+    siteUrl: string,
+  ): Promise<SitemapEntry[]> {
+    const entries: SitemapEntry[] = [];
+    const seen = new Set<string>();
+
+    for (const [pattern, route] of routes) {
+      const config = route.getUserConfig() as TypedRouteConfig;
+      if (
+        config.sitemap === false || !route.isPageRoute() ||
+        (config.type && RouteOptimizer.isApiType(config.type)) ||
+        route.getAccess() !== "public" ||
+        /\bnoindex\b/i.test(route.getMeta().robots || "")
+      ) {
+        continue;
+      }
+
+      const frequency = config.optimization?.updateFrequency ??
+        (config.type
+          ? ROUTE_OPTIMIZATION_PRESETS[config.type]?.updateFrequency
+          : undefined);
+      const hints = {
+        ...(frequency ? FREQUENCY_HINTS[frequency] : {}),
+        ...(typeof config.sitemap === "object" ? config.sitemap : {}),
+      };
+
+      for (const path of await this.expandPattern(pattern, route)) {
+        const canonical = path === pattern ? config.meta?.canonical : undefined;
+        const loc = canonical
+          ? new URL(canonical, `${siteUrl}/`).href
+          : `${siteUrl}${path}`;
+        if (seen.has(loc)) continue;
+        seen.add(loc);
+        entries.push({ loc, ...hints });
+      }
+    }
+
+    return entries;
+  }
+
+  private getSiteUrl(origin: string): string {
+    return (this.config.siteUrl || origin).replace(/\/$/, "");
+  }
+
+  /**
+   * Concrete paths for a route pattern (dynamic routes need staticPaths())
+   */
+  private async expandPattern(
+    pattern: string,
+    route: WebliskRoute,
+  ): Promise<string[]> {
+    const isDynamic = WebliskRouter.parsePattern(pattern)
+      .some((segment) => segment.type !== "static");
+    if (!isDynamic) return [pattern];
+
+    const paths: string[] = [];
+    for (const params of await route.getStaticPaths()) {
+      try {
+        paths.push(WebliskRouter.buildPath(pattern, params));
+      } catch (error) {
+        logger.warn("Sitemap skipped invalid staticPaths() params", {
+          pattern,
+          error: error instanceof Error ? error.message : String(error),
+        });
+      }
+    }
+    return paths;
+  }
+
+  /**
+   * Part 0 is /sitemap.xml: the urlset itself, or an index of
+   * /sitemap-1.xml ... /sitemap-N.xml once there are too many URLs
+   */
+  private renderPart(
+    entries: SitemapEntry[],
+    part: number,
+    siteUrl: string,
+  ): string | null {
+    const parts = Math.ceil(entries.length / SITEMAP_URL_LIMIT);
+    if (part === 0) {
+      if (parts <= 1) return renderSitemap(entries);
+      return renderSitemapIndex(
+        Array.from(
+          { length: parts },
+          (_, index) => `${siteUrl}/sitemap-${index + 1}.xml`,
+        ),
+      );
+    }
+
+    if (parts <= 1 || part > parts) return null;
+    return renderSitemap(
+      entries.slice((part - 1) * SITEMAP_URL_LIMIT, part * SITEMAP_URL_LIMIT),
+    );
+  }
+}
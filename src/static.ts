@@ -4,6 +4,7 @@
  */
 
 import { logger } from "./logger.ts";
+import { compressBytes, type ContentEncoding } from "./compression.ts";
 
 export interface StaticFile {
   content: string;
@@ -21,6 +22,10 @@ export interface StaticFileOptions {
 
 export class StaticFileManager {
   private files = new Map<string, StaticFile>();
+  private compressed = new Map<
+    string,
+    Map<ContentEncoding, Uint8Array<ArrayBuffer>>
+  >();
   private readonly defaultCacheMaxAge = 86400; // 24 hours
 
   /**
@@ -44,6 +49,7 @@ export class StaticFileManager {
     };
 
     this.files.set(normalizedPath, staticFile);
+    this.compressed.delete(normalizedPath);
     logger.info(`Static file registered: ${normalizedPath}`, { contentType });
   }
 
@@ -87,6 +93,7 @@ export class StaticFileManager {
    */
   removeFile(path: string): boolean {
     const normalizedPath = this.normalizePath(path);
+    this.compressed.delete(normalizedPath);
     return this.files.delete(normalizedPath);
   }
 
@@ -101,8 +108,14 @@ export class StaticFileManager {
 
     // Handle conditional requests (304 Not Modified)
     if (request) {
+      // Compressed responses carry the weak form of the ETag
       const ifNoneMatch = request.headers.get("If-None-Match");
-      if (ifNoneMatch && staticFile.etag && ifNoneMatch === staticFile.etag) {
+      if (
+        ifNoneMatch && staticFile.etag &&
+        ifNoneMatch.split(",").some((tag) =>
+          tag.trim().replace(/^W\//, "") === staticFile.etag
+        )
+      ) {
         return new Response(null, { status: 304 });
       }
 
@@ -128,21 +141,59 @@ export class StaticFileManager {
       headers["Last-Modified"] = staticFile.lastModified.toUTCString();
     }
 
-    // Handle base64 content
-    if (staticFile.isBase64) {
-      try {
-        const binaryString = atob(staticFile.content);
-        const bytes = new Uint8Array(binaryString.length);
-        for (let i = 0; i < binaryString.length; i++) {
-          bytes[i] = binaryString.charCodeAt(i);
-        }
-        return new Response(bytes, { headers });
-      } catch {
-        return new Response("Invalid base64 content", { status: 500 });
-      }
+    let bytes: Uint8Array<ArrayBuffer>;
+    try {
+      bytes = this.getBytes(staticFile);
+    } catch {
+      return new Response("Invalid base64 content", { status: 500 });
     }
+    headers["Content-Length"] = String(bytes.byteLength);
 
-    return new Response(staticFile.content, { headers });
+    return new Response(bytes, { headers });
+  }
+
+  /**
+   * Get a file's content compressed with an encoding
+   * (compressed once per file version, then served from memory)
+   */
+  async getCompressed(
+    path: string,
+    encoding: ContentEncoding,
+  ): Promise<Uint8Array<ArrayBuffer> | null> {
+    const normalizedPath = this.normalizePath(path);
+    const staticFile = this.files.get(normalizedPath);
+    if (!staticFile) {
+      return null;
+    }
+
+    let variants = this.compressed.get(normalizedPath);
+    if (!variants) {
+      variants = new Map();
+      this.compressed.set(normalizedPath, variants);
+    }
+
+    let content = variants.get(encoding);
+    if (!content) {
+      content = await compressBytes(this.getBytes(staticFile), encoding);
+      variants.set(encoding, content);
+    }
+    return content;
+  }
+
+  /**
+   * Get the raw bytes of a file (decoding base64 content)
+   */
+  private getBytes(staticFile: StaticFile): Uint8Array<ArrayBuffer> {
+    if (!staticFile.isBase64) {
+      return new TextEncoder().encode(staticFile.content);
+    }
+
+    const binaryString = atob(staticFile.content);
+    const bytes = new Uint8Array(binaryString.length);
+    for (let i = 0; i < binaryString.length; i++) {
+      bytes[i] = binaryString.charCodeAt(i);
+    }
+    return bytes;
   }
 
   /**
@@ -0,0 +1,135 @@
+/**
+ * Weblisk Streaming Module
+ * Deferred HTML placeholders and streamed page responses
+ *
+ * `context.defer()` returns a placeholder element right away; once its
+ * content resolves it is either streamed after the page (and swapped into
+ * place by a small inline script) or inlined before a buffered response.
+ */
+
+import type { DeferOptions, DeferredHtml } from "./types.ts";
+import { logger } from "./logger.ts";
+
+const SWAP_SCRIPT = `<script>function __webliskSwap(id){` +
+  `var s=document.getElementById(id),t=document.getElementById(id+"-content");` +
+  `if(s&&t){s.replaceWith(t.content);t.remove();}}</script>`;
+
+interface DeferredSlot {
+  placeholder: string;
+  content: Promise<string>;
+}
+
+/**
+ * Deferred content registered while rendering one page
+ */
+export class DeferredContent {
+  private slots = new Map<string, DeferredSlot>();
+  private counter = 0;
+
+  /**
+   * Register async content and return its placeholder HTML
+   */
+  defer(content: DeferredHtml, options: DeferOptions = {}): string {
+    const id = `weblisk-slot-${++this.counter}`;
+    const placeholder = `<weblisk-slot id="${id}" style="display:contents">${
+      options.fallback ?? ""
+    }</weblisk-slot>`;
+
+    const pending = typeof content === "function" ? content() : content;
+    this.slots.set(id, {
+      placeholder,
+      content: Promise.resolve(pending).catch((error) => {
+        logger.error(
+          "Deferred content failed",
+          error instanceof Error ? error : new Error(String(error)),
+          { slot: id },
+        );
+        return options.error ? options.error(error) : "";
+      }),
+    });
+
+    return placeholder;
+  }
+
+  /**
+   * Number of placeholders still waiting for content
+   */
+  get size(): number {
+    return this.slots.size;
+  }
+
+  /**
+   * Replace every placeholder in the output with its resolved content
+   * (content may register further placeholders); `encode` is applied to
+   * both when the output is not plain HTML, e.g. JSON string escaping
+   */
+  async inline(
+    output: string,
+    encode: (value: string) => string = (value) => value,
+  ): Promise<string> {
+    while (this.slots.size > 0) {
+      const slots = Array.from(this.slots.values());
+      this.slots.clear();
+
+      const contents = await Promise.all(slots.map((slot) => slot.content));
+      slots.forEach((slot, index) => {
+        output = output.replace(
+          encode(slot.placeholder),
+          () => encode(contents[index]),
+        );
+      });
+    }
+    return output;
+  }
+
+  /**
+   * Stream a page: everything before `</body>` is sent immediately, then
+   * each placeholder's content as it resolves, then the closing tags
+   */
+  stream(document: string): ReadableStream<Uint8Array> {
+    const encoder = new TextEncoder();
+    const closeIndex = document.lastIndexOf("</body>");
+    const shell = closeIndex === -1 ? document : document.slice(0, closeIndex);
+    const tail = closeIndex === -1 ? "" : document.slice(closeIndex);
+    const chunks = this.chunks();
+
+    return new ReadableStream<Uint8Array>({
+      start(controller) {
+        controller.enqueue(encoder.encode(shell));
+      },
+      async pull(controller) {
+        const next = await chunks.next();
+        if (next.done) {
+          if (tail) controller.enqueue(encoder.encode(tail));
+          controller.close();
+        } else {
+          controller.enqueue(encoder.encode(next.value));
+        }
+      },
+      async cancel() {
+        await chunks.return(undefined);
+      },
+    });
+  }
+
+  /**
+   * Yield swap chunks in the order the content resolves
+   */
+  private async *chunks(): AsyncGenerator<string> {
+    let first = true;
+
+    while (this.slots.size > 0) {
+      const [id, content] = await Promise.race(
+        Array.from(this.slots.entries()).map(([id, slot]) =>
+          slot.content.then((content) => [id, content] as const)
+        ),
+      );
+      this.slots.delete(id);
+
+      const swap = `<template id="${id}-content">${content}</template>` +
+        `<script>__webliskSwap("${id}")</script>`;
+      yield first ? `${SWAP_SCRIPT}${swap}` : swap;
+      first = false;
+    }
+  }
+}
@@ -3,6 +3,11 @@
  * Production-grade type safety with single-file routes
  */
 
+import type { CookieOptions } from "./cookies.ts";
+import type { ApiKeyIdentity } from "./api-keys.ts";
+import type { JwtClaims } from "./jwt.ts";
+import type { Principal } from "./authorization.ts";
+
 // Core message types for WebSocket communication
 export interface WebliskMessage {
   type: string;
@@ -56,9 +61,58 @@ export interface RouteContext extends Record<string, unknown> {
   // deno-lint-ignore no-explicit-any
   framework: any; // Framework instance - using any to avoid circular dependency
   sessionId?: string;
+  clientIP?: string; // Client address (proxy headers only with security.trustProxy)
+  apiKey?: ApiKeyIdentity; // Key that authenticated the request (apiKeyValidation routes)
+  claims?: JwtClaims; // Verified bearer token claims (jwtValidation routes)
+  principal?: Principal; // Authorized user or client (routes with an `access` rule)
   params?: Record<string, string>; // Route parameters (e.g., { slug: "hello-world" })
+  query?: RequestQuery; // Parsed query string (set for HTTP requests)
+  body?: <T = RequestBody>() => Promise<T>; // Parsed request body (read once, cached)
+  response?: RouteResponse; // Status, headers, cookies and redirects for the HTTP response
+  defer?: (content: DeferredHtml, options?: DeferOptions) => string; // Async HTML placeholder (set while rendering a page)
+}
+
+// Async HTML for a placeholder, streamed in (or inlined) once it resolves
+export type DeferredHtml = Promise<string> | (() => Promise<string>);
+
+export interface DeferOptions {
+  fallback?: string; // Shown until the content arrives
+  error?: (error: unknown) => string; // Content to show if loading fails
+}
+
+// Response builder available to data(), method handlers and middleware
+export interface RouteResponse {
+  status(code: number): RouteResponse;
+  header(name: string, value: string): RouteResponse;
+  cookie(
+    name: string,
+    value: string,
+    options?: CookieOptions,
+  ): RouteResponse;
+  deleteCookie(name: string, options?: CookieOptions): RouteResponse;
+  redirect(location: string, status?: number): RouteResponse;
+  getStatus(): number | undefined;
+  isRedirect(): boolean;
+  apply(response: Response): Response;
 }
 
+// Parsed query string with repeated-key arrays and typed coercion
+export interface RequestQuery {
+  get(name: string): string | undefined;
+  getAll(name: string): string[];
+  has(name: string): boolean;
+  string(name: string, fallback?: string): string | undefined;
+  int(name: string, fallback?: number): number | undefined;
+  number(name: string, fallback?: number): number | undefined;
+  boolean(name: string, fallback?: boolean): boolean | undefined;
+  toObject(): Record<string, string | string[]>;
+}
+
+// Parsed request body: JSON value, or form fields (repeated keys as arrays,
+// uploaded files as File values) for urlencoded and multipart bodies;
+// pass a type to `body<T>()` to narrow it
+export type RequestBody = Record<string, unknown>;
+
 // Event handler types with proper typing
 export interface ComponentEventHandler {
   (data: unknown, connection: WebSocketConnection): Promise<unknown> | unknown;
@@ -79,6 +133,8 @@ export interface WebSocketConnection {
   id: string;
   sessionId: string; // Made required since all connections need sessions
   socket: WebSocket;
+  claims?: JwtClaims; // Verified token claims from the upgrade request
+  request?: Request; // Upgrade request (headers and address for route events)
   send(data: unknown): void;
 }
 
@@ -180,6 +236,30 @@ export class ServerError extends WebliskError {
   }
 }
 
+export class HttpError extends WebliskError {
+  constructor(
+    message: string,
+    public status: number = 500,
+    code: string = "HTTP_ERROR",
+    public details?: unknown,
+  ) {
+    super(message, code, { status });
+    this.name = "HttpError";
+  }
+}
+
+export class RouteDataError extends WebliskError {
+  constructor(
+    message: string,
+    public dataFunction: string, // e.g. "data" or "globalData"
+    public override cause: unknown,
+    context?: Record<string, unknown>,
+  ) {
+    super(message, "ROUTE_DATA_ERROR", { dataFunction, ...context });
+    this.name = "RouteDataError";
+  }
+}
+
 // Framework interface
 export interface IWebliskFramework {
   route(
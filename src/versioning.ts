@@ -0,0 +1,208 @@
+/**
+ * Weblisk Versioning Module
+ * Several versions of one API path, selected by URL prefix (/v2/orders),
+ * an Accept-Version header or a versioned media type
+ * (application/vnd.weblisk.v2+json), plus the Deprecation, Sunset and Link
+ * headers for versions that are being retired
+ *
+ * Requests that name no version get the oldest one by default, so clients
+ * that are unaware of versioning keep working and receive the deprecation
+ * headers; once its sunset date passes that version answers 410 Gone.
+ */
+
+import type { APIManagementConfig, TypedRouteConfig } from "./route-types.ts";
+import type { WebliskRoute } from "./routes.ts";
+import { HttpError } from "./types.ts";
+
+export type ApiVersionStrategy = "url" | "header" | "media-type";
+
+export interface VersioningConfig {
+  strategies: ApiVersionStrategy[];
+  prefix: string; // URL prefix before the version: "v" → /v2/orders
+  header: string; // Request header naming the version
+  vendor: string; // Media type vendor: application/vnd.<vendor>.v2+json
+  defaultVersion: "oldest" | "latest"; // For requests that name no version
+}
+
+/**
+ * Deprecation lifecycle of a route (from `advanced.apiManagement`)
+ */
+export type ApiLifecycle = Pick<
+  APIManagementConfig,
+  "deprecationDate" | "sunsetDate" | "migrationPath"
+>;
+
+/**
+ * Compare version strings numerically ("1.10" sorts after "1.9")
+ */
+export function compareVersions(a: string, b: string): number {
+  return a.localeCompare(b, undefined, { numeric: true });
+}
+
+/**
+ * The route versions registered for one path
+ */
+export class ApiVersionSet {
+  private versions = new Map<string, WebliskRoute>();
+
+  add(version: string, route: WebliskRoute): void {
+    this.versions.set(version, route);
+  }
+
+  get size(): number {
+    return this.versions.size;
+  }
+
+  /**
+   * Version strings, oldest first
+   */
+  getVersions(): string[] {
+    return Array.from(this.versions.keys()).sort(compareVersions);
+  }
+
+  getRoutes(): WebliskRoute[] {
+    return this.getVersions().map((version) => this.versions.get(version)!);
+  }
+
+  getDefault(config: VersioningConfig): WebliskRoute {
+    const versions = this.getVersions();
+    const version = config.defaultVersion === "latest"
+      ? versions[versions.length - 1]
+      : versions[0];
+    return this.versions.get(version)!;
+  }
+
+  /**
+   * Pick the version the request asks for; "2" selects "2" or the newest
+   * "2.x". Throws a 406 HttpError for versions that do not exist.
+   */
+  select(request: Request, config: VersioningConfig): WebliskRoute {
+    const requested = requestedVersion(request, config);
+    if (!requested) return this.getDefault(config);
+
+    const exact = this.versions.get(requested);
+    if (exact) return exact;
+
+    const minor = this.getVersions()
+      .filter((version) => version.startsWith(`${requested}.`))
+      .pop();
+    if (minor) return this.versions.get(minor)!;
+
+    throw new HttpError(
+      `API version ${requested} is not available`,
+      406,
+      "UNSUPPORTED_API_VERSION",
+      { requested, available: this.getVersions() },
+    );
+  }
+}
+
+/**
+ * Read the requested version from the Accept-Version header or a
+ * versioned media type in Accept (`vnd.<vendor>.v2+json` or `version=2`)
+ */
+export function requestedVersion(
+  request: Request,
+  config: VersioningConfig,
+): string | undefined {
+  if (config.strategies.includes("header")) {
+    const header = request.headers.get(config.header)?.trim();
+    if (header) return header.replace(/^v/i, "");
+  }
+
+  if (config.strategies.includes("media-type")) {
+    const accept = request.headers.get("Accept") || "";
+    const vendor = config.vendor.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+    const match = accept.match(
+      new RegExp(`vnd\\.${vendor}\\.v([\\w.]+)\\+json`, "i"),
+    ) ?? accept.match(/;\s*version=([\w.]+)/i);
+    if (match) return match[1];
+  }
+
+  return undefined;
+}
+
+/**
+ * URL-prefixed path for a route version, or null when URL versioning is
+ * off or the path already starts with a version prefix
+ */
+export function versionedPath(
+  path: string,
+  version: string,
+  config: VersioningConfig,
+): string | null {
+  if (!config.strategies.includes("url")) return null;
+
+  const first = path.split("/").find(Boolean) || "";
+  const major = version.split(".")[0];
+  if (
+    first === `${config.prefix}${version}` ||
+    first === `${config.prefix}${major}`
+  ) {
+    return null;
+  }
+
+  return `/${config.prefix}${version}${path === "/" ? "" : path}`;
+}
+
+/**
+ * Get a route's deprecation lifecycle, if it has one
+ */
+export function getApiLifecycle(route: WebliskRoute): ApiLifecycle | null {
+  const management = (route.getUserConfig() as TypedRouteConfig).advanced
+    ?.apiManagement;
+  if (!management?.deprecationDate && !management?.sunsetDate) return null;
+  return management;
+}
+
+/**
+ * Throw 410 Gone once a version's sunset date has passed
+ */
+export function assertNotSunset(
+  lifecycle: ApiLifecycle,
+  version?: string,
+): void {
+  if (!lifecycle.sunsetDate) return;
+  const sunset = new Date(lifecycle.sunsetDate);
+  if (sunset.getTime() > Date.now()) return;
+
+  throw new HttpError(
+    `${
+      version ? `API version ${version}` : "This API"
+    } was retired on ${sunset.toUTCString()}`,
+    410,
+    "API_VERSION_SUNSET",
+    {
+      ...(version ? { version } : {}),
+      sunset: sunset.toISOString(),
+      ...(lifecycle.migrationPath
+        ? { migrationPath: lifecycle.migrationPath }
+        : {}),
+    },
+  );
+}
+
+/**
+ * Set the Deprecation (RFC 9745), Sunset (RFC 8594) and successor-version
+ * Link headers
+ */
+export function applyLifecycleHeaders(
+  headers: Headers,
+  lifecycle: ApiLifecycle,
+): void {
+  if (lifecycle.deprecationDate) {
+    const seconds = Math.floor(
+      new Date(lifecycle.deprecationDate).getTime() / 1000,
+    );
+    headers.set("Deprecation", `@${seconds}`);
+  }
+  if (lifecycle.sunsetDate) {
+    headers.set("Sunset", new Date(lifecycle.sunsetDate).toUTCString());
+  }
+  if (lifecycle.migrationPath) {
+    headers.append(
+      "Link",
+      `<${lifecycle.migrationPath}>; rel="successor-version"`,
+    );
+  }
+}
@@ -0,0 +1,433 @@
+/**
+ * Weblisk Webhooks Module
+ * Webhook receivers: HMAC signature verification (with a timestamp window
+ * against replays), de-duplication by idempotency key, fast 202
+ * acknowledgement with background processing and retries, and a log of
+ * delivery attempts
+ *
+ * A `webhook` route with `webhook` options answers POST requests. With a
+ * `timestampHeader` the signed content is `<timestamp>.<body>`, otherwise
+ * the raw body. Deliveries are de-duplicated by their idempotency key
+ * header and by their verified signature, so a captured delivery sent
+ * again under a new key is still a duplicate.
+ *
+ * Set `timestampHeader` for replay protection: without it a signature
+ * never expires, and a delivery replayed after `idempotencyTtl` is
+ * processed again.
+ */
+
+import { readLimited } from "./request.ts";
+import { HttpError, type RouteContext } from "./types.ts";
+import { json } from "./routes.ts";
+import { logger } from "./logger.ts";
+
+export type WebhookHashAlgorithm = "sha1" | "sha256" | "sha512";
+
+export interface WebhookEvent {
+  id: string; // Idempotency key
+  route: string;
+  payload: unknown; // Parsed JSON, or the text for other content types
+  rawBody: string;
+  headers: Headers;
+  receivedAt: number; // Epoch milliseconds
+  attempt: number; // 1 for the first processing attempt
+}
+
+export interface WebhookOptions {
+  secrets: string[]; // Accepted signing secrets (several while rotating)
+  handler: (event: WebhookEvent, context: RouteContext) => unknown;
+  header?: string; // Signature header (default X-Webhook-Signature)
+  algorithm?: WebhookHashAlgorithm; // Default sha256
+  encoding?: "hex" | "base64"; // Signature encoding (default hex)
+  signaturePrefix?: string; // e.g. "sha256=" (stripped before comparing)
+  timestampHeader?: string; // Signed timestamp header (epoch seconds); needed for replay protection
+  tolerance?: number; // Seconds a timestamp may differ from now (default 300)
+  idempotencyHeader?: string; // Default Idempotency-Key
+  idempotencyTtl?: number; // Seconds a key is remembered (default 1 day)
+  async?: boolean; // Acknowledge with 202 before processing (default true)
+  retries?: number; // Extra background attempts after a failure (default 2)
+  retryDelay?: number; // Milliseconds before the first retry, doubling (default 1000)
+}
+
+export type WebhookDeliveryStatus =
+  | "rejected"
+  | "duplicate"
+  | "accepted"
+  | "succeeded"
+  | "failed";
+
+/**
+ * One received delivery and what happened to it
+ */
+export interface WebhookDelivery {
+  id: string; // Idempotency key (or a random id for rejected deliveries)
+  route: string;
+  status: WebhookDeliveryStatus;
+  receivedAt: number;
+  attempts: number; // Processing attempts so far
+  reason?: string; // Why it was rejected, or the last processing error
+  durationMs?: number; // Total processing time
+}
+
+/**
+ * Remembers idempotency keys for a while; implement it over a shared
+ * store to de-duplicate across instances
+ */
+export interface IdempotencyStore {
+  /**
+   * Record the key unless it is already known; false for duplicates
+   */
+  claim(key: string, ttlMs: number): Promise<boolean>;
+  /**
+   * Forget a key so the sender's retry is processed again
+   */
+  release(key: string): Promise<void>;
+}
+
+/**
+ * In-process store (the default); expired keys are swept periodically
+ */
+export class MemoryIdempotencyStore implements IdempotencyStore {
+  private keys = new Map<string, number>(); // key -> expiry
+  private operations = 0;
+
+  claim(key: string, ttlMs: number): Promise<boolean> {
+    const now = Date.now();
+    if (++this.operations % 1000 === 0) {
+      for (const [stored, expires] of this.keys) {
+        if (expires <= now) this.keys.delete(stored);
+      }
+    }
+
+    const expires = this.keys.get(key);
+    if (expires !== undefined && expires > now) return Promise.resolve(false);
+    this.keys.set(key, now + ttlMs);
+    return Promise.resolve(true);
+  }
+
+  release(key: string): Promise<void> {
+    this.keys.delete(key);
+    return Promise.resolve();
+  }
+}
+
+const HASHES: Record<WebhookHashAlgorithm, string> = {
+  sha1: "SHA-1",
+  sha256: "SHA-256",
+  sha512: "SHA-512",
+};
+
+function encodeSignature(
+  signature: ArrayBuffer,
+  encoding: "hex" | "base64",
+): string {
+  const bytes = new Uint8Array(signature);
+  return encoding === "base64"
+    ? btoa(String.fromCharCode(...bytes))
+    : Array.from(bytes, (byte) => byte.toString(16).padStart(2, "0")).join("");
+}
+
+/**
+ * Compare without an early exit, so timing does not reveal how much of a
+ * signature matched
+ */
+function timingSafeEqual(a: string, b: string): boolean {
+  let difference = a.length ^ b.length;
+  for (let i = 0; i < Math.max(a.length, b.length); i++) {
+    difference |= (a.charCodeAt(i) || 0) ^ (b.charCodeAt(i) || 0);
+  }
+  return difference === 0;
+}
+
+/**
+ * Compute the signature a sender would put in the signature header
+ * (without the prefix)
+ */
+export async function signWebhookPayload(
+  payload: string,
+  secret: string,
+  options: Pick<WebhookOptions, "algorithm" | "encoding"> & {
+    timestamp?: string | number;
+  } = {},
+): Promise<string> {
+  const key = await crypto.subtle.importKey(
+    "raw",
+    new TextEncoder().encode(secret),
+    { name: "HMAC", hash: HASHES[options.algorithm ?? "sha256"] },
+    false,
+    ["sign"],
+  );
+  const content = options.timestamp !== undefined
+    ? `${options.timestamp}.${payload}`
+    : payload;
+  return encodeSignature(
+    await crypto.subtle.sign("HMAC", key, new TextEncoder().encode(content)),
+    options.encoding ?? "hex",
+  );
+}
+
+/**
+ * Check a delivery's signature and timestamp, resolving to the signature
+ * that matched; throws a 401 HttpError (WEBHOOK_SIGNATURE_MISSING,
+ * WEBHOOK_TIMESTAMP_INVALID, WEBHOOK_SIGNATURE_INVALID) for deliveries
+ * that must be rejected
+ */
+export async function verifyWebhookSignature(
+  request: Request,
+  rawBody: string,
+  options: WebhookOptions,
+): Promise<string> {
+  const header = request.headers.get(
+    options.header ?? "X-Webhook-Signature",
+  );
+  if (!header) {
+    throw new HttpError(
+      "Webhook signature missing",
+      401,
+      "WEBHOOK_SIGNATURE_MISSING",
+    );
+  }
+
+  let timestamp: string | undefined;
+  if (options.timestampHeader) {
+    timestamp = request.headers.get(options.timestampHeader) ?? undefined;
+    const seconds = Number(timestamp);
+    const skew = Math.abs(Date.now() / 1000 - seconds);
+    if (!timestamp || !Number.isFinite(seconds)) {
+      throw new HttpError(
+        "Webhook timestamp missing",
+        401,
+        "WEBHOOK_TIMESTAMP_INVALID",
+      );
+    }
+    if (skew > (options.tolerance ?? 300)) {
+      throw new HttpError(
+        "Webhook timestamp outside the tolerance window",
+        401,
+        "WEBHOOK_TIMESTAMP_INVALID",
+      );
+    }
+  }
+
+  // Senders may list several signatures (e.g. while rotating secrets)
+  const prefix = options.signaturePrefix ?? "";
+  const provided = header.split(/[\s,]+/).filter(Boolean).map((value) =>
+    prefix && value.startsWith(prefix) ? value.slice(prefix.length) : value
+  );
+
+  for (const secret of options.secrets) {
+    const expected = await signWebhookPayload(rawBody, secret, {
+      algorithm: options.algorithm,
+      encoding: options.encoding,
+      timestamp,
+    });
+    if (provided.some((signature) => timingSafeEqual(signature, expected))) {
+      return expected;
+    }
+  }
+
+  throw new HttpError(
+    "Webhook signature does not match",
+    401,
+    "WEBHOOK_SIGNATURE_INVALID",
+  );
+}
+
+/**
+ * Receives deliveries for an application's webhook routes
+ */
+export class WebhookManager {
+  private deliveries: WebhookDelivery[] = [];
+  private pending = new Set<Promise<void>>();
+
+  constructor(
+    public store: IdempotencyStore = new MemoryIdempotencyStore(),
+    private options: { maxBodySize: number; historySize: number } = {
+      maxBodySize: 1024 * 1024,
+      historySize: 1000,
+    },
+  ) {}
+
+  /**
+   * Route handler for a webhook route
+   */
+  createHandler(
+    route: string,
+    options: WebhookOptions,
+  ): (context: RouteContext) => Promise<Response> {
+    return (context) => this.receive(route, options, context);
+  }
+
+  /**
+   * Recent deliveries, newest last (optionally for one route)
+   */
+  getDeliveries(route?: string): WebhookDelivery[] {
+    return this.deliveries
+      .filter((delivery) => !route || delivery.route === route)
+      .map((delivery) => ({ ...delivery }));
+  }
+
+  /**
+   * Wait for background processing to finish (tests, graceful shutdown)
+   */
+  async settle(): Promise<void> {
+    while (this.pending.size > 0) {
+      await Promise.all(this.pending);
+    }
+  }
+
+  private async receive(
+    route: string,
+    options: WebhookOptions,
+    context: RouteContext,
+  ): Promise<Response> {
+    const { request } = context;
+    const receivedAt = Date.now();
+    const bytes = await readLimited(request, this.options.maxBodySize);
+    const rawBody = new TextDecoder().decode(bytes);
+
+    let signature: string;
+    try {
+      signature = await verifyWebhookSignature(request, rawBody, options);
+    } catch (error) {
+      const reason = error instanceof HttpError ? error.code : String(error);
+      this.record({
+        id: crypto.randomUUID(),
+        route,
+        status: "rejected",
+        receivedAt,
+        attempts: 0,
+        reason,
+      });
+      logger.logSecurity("Webhook delivery rejected", {
+        route,
+        reason,
+        userAgent: request.headers.get("User-Agent"),
+      });
+      throw error;
+    }
+
+    const id = request.headers.get(
+      options.idempotencyHeader ?? "Idempotency-Key",
+    ) || request.headers.get(options.header ?? "X-Webhook-Signature")!;
+    const ttl = (options.idempotencyTtl ?? 24 * 60 * 60) * 1000;
+    // The key header is not signed, so the signature is claimed as well
+    const storeKeys = [`${route}:${id}`, `${route}:signature:${signature}`];
+    const claimed: string[] = [];
+    for (const key of storeKeys) {
+      if (!(await this.store.claim(key, ttl))) break;
+      claimed.push(key);
+    }
+    const release = () =>
+      Promise.all(storeKeys.map((key) => this.store.release(key)));
+
+    if (claimed.length < storeKeys.length) {
+      await Promise.all(claimed.map((key) => this.store.release(key)));
+      this.record({ id, route, status: "duplicate", receivedAt, attempts: 0 });
+      return json({ received: true, id, duplicate: true });
+    }
+
+    const contentType = request.headers.get("Content-Type") || "";
+    let payload: unknown = rawBody;
+    if (contentType.includes("json")) {
+      try {
+        payload = JSON.parse(rawBody);
+      } catch {
+        await release();
+        throw new HttpError("Malformed JSON body", 400, "INVALID_JSON");
+      }
+    }
+
+    const delivery: WebhookDelivery = {
+      id,
+      route,
+      status: "accepted",
+      receivedAt,
+      attempts: 0,
+    };
+    this.record(delivery);
+
+    const event = (attempt: number): WebhookEvent => ({
+      id,
+      route,
+      payload,
+      rawBody,
+      headers: request.headers,
+      receivedAt,
+      attempt,
+    });
+
+    if (options.async === false) {
+      try {
+        await this.attempt(delivery, options, event(1), context);
+      } catch (error) {
+        // Let the sender's own retry through
+        await release();
+        throw error;
+      }
+      return json({ received: true, id });
+    }
+
+    const task = this.process(delivery, options, event, context)
+      .finally(() => this.pending.delete(task));
+    this.pending.add(task);
+    return json({ received: true, id }, { status: 202 });
+  }
+
+  /**
+   * Background processing with exponential backoff between retries
+   */
+  private async process(
+    delivery: WebhookDelivery,
+    options: WebhookOptions,
+    event: (attempt: number) => WebhookEvent,
+    context: RouteContext,
+  ): Promise<void> {
+    const attempts = 1 + (options.retries ?? 2);
+    for (let attempt = 1; attempt <= attempts; attempt++) {
+      try {
+        await this.attempt(delivery, options, event(attempt), context);
+        return;
+      } catch {
+        if (attempt < attempts) {
+          const delay = (options.retryDelay ?? 1000) * 2 ** (attempt - 1);
+          await new Promise((resolve) => setTimeout(resolve, delay));
+        }
+      }
+    }
+    logger.error(
+      "Webhook processing failed",
+      new Error(delivery.reason ?? "Unknown error"),
+      { route: delivery.route, id: delivery.id, attempts: delivery.attempts },
+    );
+  }
+
+  private async attempt(
+    delivery: WebhookDelivery,
+    options: WebhookOptions,
+    event: WebhookEvent,
+    context: RouteContext,
+  ): Promise<void> {
+    const start = performance.now();
+    delivery.attempts++;
+    try {
+      await options.handler(event, context);
+      delivery.status = "succeeded";
+      delivery.reason = undefined;
+    } catch (error) {
+      delivery.status = "failed";
+      delivery.reason = error instanceof Error ? error.message : String(error);
+      throw error;
+    } finally {
+      delivery.durationMs = (delivery.durationMs ?? 0) +
+        performance.now() - start;
+    }
+  }
+
+  private record(delivery: WebhookDelivery): void {
+    this.deliveries.push(delivery);
+    if (this.deliveries.length > this.options.historySize) {
+      this.deliveries.shift();
+    }
+  }
+}
@@ -3,11 +3,13 @@
  * A minimal HTML-over-WebSocket framework for Deno with single-file routes
  */
 
-import type {
-  ComponentDefinition,
-  RouteContext,
-  ServerEventMessage,
-  WebSocketConnection,
+import {
+  type ComponentDefinition,
+  HttpError,
+  type RouteContext,
+  type ServerEventMessage,
+  WebliskError,
+  type WebSocketConnection,
 } from "./types.ts";
 import { logger } from "./logger.ts";
 import {
@@ -16,18 +18,93 @@ import {
   WebliskConfigManager,
 } from "./config.ts";
 import { frameworkMonitor } from "./monitor.ts";
-import { type RateLimitConfig, security } from "./security.ts";
+import { security } from "./security.ts";
+import {
+  composeMiddleware,
+  corsMiddleware,
+  type Middleware,
+  rateLimitMiddleware,
+  securityHeadersMiddleware,
+  sessionMiddleware,
+} from "./middleware.ts";
 import {
   type RouteConfig,
+  WebliskApiRoute,
   type WebliskAppConfig,
   type WebliskFrameworkRouteConfig,
   WebliskRoute,
 } from "./routes.ts";
 import { staticFileManager } from "./static.ts";
+import { type RouteMatch, WebliskRouter } from "./router.ts";
+import { createRouteContext } from "./request.ts";
+import { PageCache } from "./page-cache.ts";
+import { SitemapGenerator } from "./sitemap.ts";
+import { type OpenApiDocument, OpenApiGenerator } from "./openapi.ts";
+import { compressResponse } from "./compression.ts";
+import {
+  exemptFromRateLimits,
+  isRateLimitExempt,
+  RateLimiter,
+  type RateLimitStore,
+} from "./rate-limit.ts";
+import {
+  apiKeyIdentity,
+  ApiKeyManager,
+  type ApiKeyRecord,
+  type ApiKeyStore,
+  canAccessRoute,
+  extractApiKey,
+  FileApiKeyStore,
+  hasScope,
+  MemoryApiKeyStore,
+} from "./api-keys.ts";
+import { extractBearerToken, type JwtClaims, JwtVerifier } from "./jwt.ts";
+import {
+  type AuthorizationResult,
+  authorize,
+  type IdentityResolver,
+  loginRedirectUrl,
+  type Principal,
+  principalFromClaims,
+} from "./authorization.ts";
+import { type IdempotencyStore, WebhookManager } from "./webhooks.ts";
+import {
+  FileJobStore,
+  JobQueue,
+  type JobStore,
+  MemoryJobStore,
+} from "./jobs.ts";
+import {
+  ApiVersionSet,
+  applyLifecycleHeaders,
+  assertNotSunset,
+  getApiLifecycle,
+  versionedPath,
+} from "./versioning.ts";
+import {
+  exportStaticSite,
+  type StaticExportOptions,
+  type StaticExportResult,
+} from "./export.ts";
+import {
+  RedirectManager,
+  type RedirectRule,
+  type RedirectRulesConfig,
+  type RewriteRule,
+} from "./redirects.ts";
+import {
+  describeError,
+  type ErrorPageConfig,
+  type ErrorPageConfigs,
+  ErrorPageRegistry,
+  renderErrorOverlay,
+} from "./error-pages.ts";
+import { type RouteGroupOptions, WebliskRouteGroup } from "./groups.ts";
 import { CookieManager } from "./cookies.ts";
 import { webSocketManager } from "./websockets.ts";
 import {
   routeHelpers,
+  RouteOptimizer,
   type TypedRouteConfig,
   typedRouteRegistry,
 } from "./route-types.ts";
@@ -53,11 +130,28 @@ export {
  */
 export class WebliskFramework {
   private routes = new Map<string, WebliskRoute>();
+  private versions = new Map<string, ApiVersionSet>(); // Versioned API paths
+  private versionAliases = new Set<string>(); // URL-prefixed version paths
+  private rateLimiter = new RateLimiter();
+  private remoteAddresses = new WeakMap<Request, string>(); // From Deno.serve
+  private identityResolver?: IdentityResolver;
+  private router = new WebliskRouter<WebliskRoute>();
+  private errorPages = new ErrorPageRegistry<WebliskRoute>();
+  private redirectManager: RedirectManager;
+  private pageCache: PageCache;
+  private sitemap: SitemapGenerator;
+  private openApi: OpenApiGenerator;
   private components = new Map<string, ComponentDefinition>();
   private config: WebliskConfig;
   private server?: Deno.HttpServer;
   private cookieManager: CookieManager;
+  private middleware: Middleware[] = [];
+  private builtinMiddleware: Middleware[] = [];
   private startTime: number;
+  readonly apiKeys: ApiKeyManager;
+  readonly jwt: JwtVerifier;
+  readonly webhooks: WebhookManager;
+  readonly jobs: JobQueue;
 
   constructor(config?: DeepPartial<WebliskConfig>) {
     this.startTime = Date.now();
@@ -74,10 +168,50 @@ export class WebliskFramework {
       cookieSameSite: this.config.session.cookieSameSite,
     });
 
+    // Declarative redirects and rewrites from configuration
+    this.redirectManager = new RedirectManager(this.config.routing);
+    this.pageCache = new PageCache(this.config.cache);
+    this.sitemap = new SitemapGenerator(this.config.seo);
+    this.openApi = new OpenApiGenerator(this.config.openapi);
+    this.apiKeys = new ApiKeyManager(
+      this.config.apiKeys.storePath
+        ? new FileApiKeyStore(this.config.apiKeys.storePath)
+        : new MemoryApiKeyStore(),
+      this.config.apiKeys,
+    );
+    this.jwt = new JwtVerifier(this.config.jwt);
+    this.webhooks = new WebhookManager(undefined, {
+      maxBodySize: this.config.request.maxBodySize,
+      historySize: 1000,
+    });
+    this.jobs = new JobQueue(
+      this.config.jobs.storePath
+        ? new FileJobStore(this.config.jobs.storePath)
+        : new MemoryJobStore(),
+      this.config.jobs,
+    );
+
+    // Job progress goes to the session that submitted the job
+    this.jobs.onUpdate((job) => {
+      if (job.sessionId) {
+        webSocketManager.broadcastToSession(job.sessionId, {
+          type: "job-update",
+          job,
+        });
+      }
+    });
+
+    // Built-in security checks run as replaceable middleware
+    this.builtinMiddleware = this.createBuiltinMiddleware();
+    this.middleware = [...this.builtinMiddleware];
+
     // Set up WebSocket route message handler
     webSocketManager.setRouteMessageHandler(
       this.handleWebSocketRouteMessage.bind(this),
     );
+    webSocketManager.setTokenVerifier(
+      this.jwt.isConfigured() ? this.jwt : undefined,
+    );
 
     logger.info("Weblisk framework initialized", {
       port: this.config.server.port,
@@ -89,13 +223,6 @@ export class WebliskFramework {
       rateLimitEnabled: this.config.security.rateLimitEnabled,
     });
 
-    // Start security cleanup timer
-    if (this.config.security.rateLimitEnabled) {
-      setInterval(() => {
-        security.cleanupRateLimit();
-      }, 60000); // Cleanup every minute
-    }
-
     // Start framework monitoring (only if enabled)
     if (this.config.monitoring.healthCheckEnabled) {
       frameworkMonitor.startPeriodicChecks();
@@ -145,9 +272,6 @@ export class WebliskFramework {
       // This is a TypedRouteConfig
       const typedConfig = routeConfig as TypedRouteConfig;
 
-      // Register with typed route registry for optimization
-      typedRouteRegistry.register(path, typedConfig);
-
       // Validate the route configuration
       const validationErrors = typedRouteRegistry.validateRoute(
         path,
@@ -159,9 +283,28 @@ export class WebliskFramework {
         });
       }
 
-      // Create WebliskRoute instance (TypedRouteConfig extends WebliskFrameworkRouteConfig)
-      const routeHandler = new WebliskRoute(typedConfig);
-      this.routes.set(path, routeHandler);
+      // Create route instance (TypedRouteConfig extends WebliskFrameworkRouteConfig)
+      // API-family routes respond with JSON instead of rendered HTML, and
+      // webhook receivers answer POST deliveries and batch jobs are queued
+      // on POST
+      const routeHandler = typedConfig.webhook
+        ? new WebliskApiRoute({
+          ...typedConfig,
+          post: this.webhooks.createHandler(path, typedConfig.webhook),
+        })
+        : typedConfig.job
+        ? new WebliskApiRoute({
+          ...typedConfig,
+          post: this.jobs.createHandler(this.defineBatchJob(path, typedConfig)),
+        })
+        : typedConfig.type && RouteOptimizer.isApiType(typedConfig.type)
+        ? new WebliskApiRoute(typedConfig)
+        : new WebliskRoute(typedConfig);
+      this.registerRouteHandler(path, routeHandler);
+
+      // Register with typed route registry for optimization (only once the
+      // router has accepted the path, so conflicts leave no stale entry)
+      typedRouteRegistry.register(path, typedConfig);
 
       // Get optimization settings for logging
       const optimization = typedRouteRegistry.getOptimization(path);
@@ -187,7 +330,7 @@ export class WebliskFramework {
       const routeHandler = routeConfig instanceof WebliskRoute
         ? routeConfig
         : new WebliskRoute(routeConfig);
-      this.routes.set(path, routeHandler);
+      this.registerRouteHandler(path, routeHandler);
 
       const config = routeConfig instanceof WebliskRoute
         ? routeConfig.getUserConfig()
@@ -205,6 +348,301 @@ export class WebliskFramework {
     return this;
   }
 
+  /**
+   * Redirect requests matching a source pattern (301 unless `permanent: false`)
+   */
+  redirect(
+    source: string,
+    destination: string,
+    options: Omit<RedirectRule, "source" | "destination"> = {},
+  ): WebliskFramework {
+    this.redirectManager.addRedirect({ source, destination, ...options });
+    return this;
+  }
+
+  /**
+   * Serve a different path for requests matching a source pattern
+   * (the URL in the browser does not change)
+   */
+  rewrite(
+    source: string,
+    destination: string,
+    options: Omit<RewriteRule, "source" | "destination"> = {},
+  ): WebliskFramework {
+    this.redirectManager.addRewrite({ source, destination, ...options });
+    return this;
+  }
+
+  /**
+   * Add redirect/rewrite rules and set the trailing slash policy
+   * (same shape as `routing` config and the loader's redirects.json)
+   */
+  configureRedirects(config: RedirectRulesConfig): WebliskFramework {
+    this.redirectManager.configure(config);
+    return this;
+  }
+
+  /**
+   * Drop cached pages for a route pattern, or every cached page
+   * Returns the number of pages removed
+   */
+  invalidateCache(pattern?: string): number {
+    return this.pageCache.invalidate(pattern);
+  }
+
+  /**
+   * Set the app-level page rendered for unmatched paths (status 404)
+   */
+  notFound(config: ErrorPageConfig): WebliskFramework {
+    return this.registerErrorPages("/", { notFound: config });
+  }
+
+  /**
+   * Set the app-level page rendered when a route fails
+   * (status from a thrown HttpError, otherwise 500)
+   */
+  error(config: ErrorPageConfig): WebliskFramework {
+    return this.registerErrorPages("/", { error: config });
+  }
+
+  /**
+   * Register error pages for a path prefix (the closest prefix wins)
+   */
+  registerErrorPages(
+    prefix: string,
+    pages: ErrorPageConfigs,
+  ): WebliskFramework {
+    const toRoute = (config?: ErrorPageConfig) =>
+      config &&
+      (config instanceof WebliskRoute ? config : new WebliskRoute(config));
+
+    this.errorPages.set(prefix, {
+      notFound: toRoute(pages.notFound),
+      error: toRoute(pages.error),
+    });
+    return this;
+  }
+
+  /**
+   * Add a route handler to the router (throws on pattern conflicts)
+   */
+  private registerRouteHandler(path: string, routeHandler: WebliskRoute): void {
+    // Versioned routes share the path; the router holds the default version
+    // and each version is also reachable under its URL prefix
+    const version = (routeHandler.getUserConfig() as TypedRouteConfig).version;
+    if (version) {
+      const versions = this.versions.get(path) || new ApiVersionSet();
+      versions.add(version, routeHandler);
+      this.versions.set(path, versions);
+
+      const alias = versionedPath(path, version, this.config.versioning);
+      if (alias) {
+        this.router.add(alias, routeHandler);
+        this.routes.set(alias, routeHandler);
+        this.versionAliases.add(alias);
+      }
+      routeHandler = versions.getDefault(this.config.versioning);
+    }
+
+    this.router.add(path, routeHandler);
+    this.routes.set(path, routeHandler);
+  }
+
+  /**
+   * Add middleware to the end of the global chain
+   */
+  use(...middleware: Middleware[]): WebliskFramework {
+    this.middleware.push(...middleware);
+    return this;
+  }
+
+  /**
+   * Replace a middleware in the chain by name, keeping its position
+   * (built-ins: "rateLimit", "cors", "session", "securityHeaders")
+   */
+  replaceMiddleware(name: string, middleware: Middleware): WebliskFramework {
+    const index = this.middleware.findIndex((entry) => entry.name === name);
+    if (index === -1) {
+      throw new WebliskError(
+        `No middleware named "${name}"`,
+        "MIDDLEWARE_NOT_FOUND",
+        { name, available: this.getMiddlewareNames() },
+      );
+    }
+    this.middleware[index] = middleware;
+    return this;
+  }
+
+  /**
+   * Keep rate limit state in a shared store (e.g. so several instances
+   * enforce one limit)
+   */
+  setRateLimitStore(store: RateLimitStore): WebliskFramework {
+    this.rateLimiter.store = store;
+    return this;
+  }
+
+  /**
+   * Keep API keys in a shared store (e.g. a database)
+   */
+  setApiKeyStore(store: ApiKeyStore): WebliskFramework {
+    this.apiKeys.store = store;
+    return this;
+  }
+
+  /**
+   * Keep webhook idempotency keys in a shared store (e.g. so several
+   * instances de-duplicate together)
+   */
+  setWebhookStore(store: IdempotencyStore): WebliskFramework {
+    this.webhooks.store = store;
+    return this;
+  }
+
+  /**
+   * Keep jobs in a shared or persistent store (instead of `jobs.storePath`)
+   */
+  setJobStore(store: JobStore): WebliskFramework {
+    this.jobs.store = store;
+    return this;
+  }
+
+  /**
+   * Define the job type of a batch route; retries and backoff default to
+   * the route's `advanced.sla.recovery` settings
+   */
+  private defineBatchJob(path: string, config: TypedRouteConfig): string {
+    const { name = path, ...definition } = config.job!;
+    const recovery = config.advanced?.sla?.recovery;
+    this.jobs.define(name, {
+      retries: recovery?.maxRestarts,
+      backoffStrategy: recovery?.backoffStrategy,
+      ...definition,
+    });
+    return name;
+  }
+
+  /**
+   * Resolve the principal for routes with an `access` rule (by default it
+   * comes from verified bearer token claims)
+   */
+  setIdentityResolver(resolver: IdentityResolver): WebliskFramework {
+    this.identityResolver = resolver;
+    return this;
+  }
+
+  /**
+   * Remove a middleware from the chain by name
+   */
+  removeMiddleware(name: string): boolean {
+    const index = this.middleware.findIndex((entry) => entry.name === name);
+    if (index === -1) return false;
+    this.middleware.splice(index, 1);
+    return true;
+  }
+
+  /**
+   * Get the names of the global middleware in execution order
+   */
+  getMiddlewareNames(): string[] {
+    return this.middleware.map((entry) => entry.name || "anonymous");
+  }
+
+  /**
+   * Register routes under a shared prefix with shared defaults
+   */
+  group(
+    prefix: string,
+    options: RouteGroupOptions | ((group: WebliskRouteGroup) => void),
+    define?: (group: WebliskRouteGroup) => void,
+  ): WebliskFramework {
+    const [groupOptions, callback] = typeof options === "function"
+      ? [{}, options]
+      : [options, define];
+    callback?.(new WebliskRouteGroup(this, prefix, groupOptions));
+    return this;
+  }
+
+  /**
+   * Mount a separately constructed application under a path prefix
+   * Its routes and components are copied into this app, and middleware it
+   * added with use() runs before each mounted route. Security middleware
+   * (rate limiting, CORS, sessions, headers) comes from this app.
+   */
+  mount(prefix: string, app: WebliskFramework): WebliskFramework {
+    if (app === this) {
+      throw new WebliskError(
+        "An application cannot be mounted on itself",
+        "INVALID_MOUNT",
+        { prefix },
+      );
+    }
+
+    const mounted = new WebliskRouteGroup(this, prefix, {
+      middleware: [function mount(context, next) {
+        return composeMiddleware(app.getApplicationMiddleware(), () => next())(
+          context,
+        );
+      }],
+    });
+    for (const [path, route] of app.routes) {
+      if (app.versionAliases.has(path)) continue; // Re-created per version
+      for (const version of app.versions.get(path)?.getRoutes() || [route]) {
+        mounted.route(path, version);
+      }
+    }
+    for (const [path, pages] of app.errorPages.entries()) {
+      mounted.registerErrorPages(path, pages);
+    }
+
+    for (const [name, definition] of app.components) {
+      if (!this.components.has(name)) this.component(name, definition);
+    }
+
+    logger.info(`Application mounted at ${prefix}`, {
+      routes: app.routes.size,
+    });
+    return this;
+  }
+
+  /**
+   * Middleware added with use() (or replacing a built-in), excluding the
+   * built-in security middleware
+   */
+  private getApplicationMiddleware(): Middleware[] {
+    return this.middleware.filter((entry) =>
+      !this.builtinMiddleware.includes(entry)
+    );
+  }
+
+  /**
+   * Build the default middleware chain from the security configuration
+   */
+  private createBuiltinMiddleware(): Middleware[] {
+    const { security: securityConfig } = this.config;
+    const middleware: Middleware[] = [];
+
+    if (securityConfig.rateLimitEnabled) {
+      middleware.push(rateLimitMiddleware({
+        windowMs: securityConfig.rateLimitWindowMs,
+        maxRequests: securityConfig.rateLimitRequests,
+        algorithm: securityConfig.rateLimitAlgorithm,
+      }, this.rateLimiter));
+    }
+    if (securityConfig.corsEnabled) {
+      middleware.push(corsMiddleware(securityConfig.corsOrigins));
+    }
+    middleware.push(sessionMiddleware(this.cookieManager));
+    if (securityConfig.securityHeadersEnabled) {
+      middleware.push(securityHeadersMiddleware({
+        production: !this.config.development.debugMode,
+        hsts: this.config.server.enableHttps && securityConfig.enableHSTS,
+      }));
+    }
+
+    return middleware;
+  }
+
   /**
    * Register a component with the framework
    */
@@ -270,6 +708,27 @@ export class WebliskFramework {
     return this.route(path, routeHelpers.stream(config));
   }
 
+  /**
+   * Register an authentication route (login, logout, password reset)
+   */
+  auth(
+    path: string,
+    config: Omit<TypedRouteConfig, "type">,
+  ): WebliskFramework {
+    return this.route(path, routeHelpers.auth(config));
+  }
+
+  /**
+   * Register an admin panel route (only admins may open it unless `access`
+   * says otherwise)
+   */
+  admin(
+    path: string,
+    config: Omit<TypedRouteConfig, "type">,
+  ): WebliskFramework {
+    return this.route(path, routeHelpers.admin(config));
+  }
+
   // Advanced Route Helpers
 
   /**
@@ -293,7 +752,8 @@ export class WebliskFramework {
   }
 
   /**
-   * Register a webhook handler (idempotent with retry logic)
+   * Register a webhook handler (idempotent with retry logic); with
+   * `webhook` options it verifies, de-duplicates and processes deliveries
    */
   webhook(
     path: string,
@@ -323,7 +783,8 @@ export class WebliskFramework {
   }
 
   /**
-   * Register a batch processing route (job queuing and long-running tasks)
+   * Register a batch processing route (job queuing and long-running tasks);
+   * with a `job` option POST requests queue a background job
    */
   batch(
     path: string,
@@ -366,10 +827,37 @@ export class WebliskFramework {
   }
 
   /**
-   * Get routes that require prerendering
+   * Get routes that are prerendered by exportStatic()
    */
   getPrerenderableRoutes(): string[] {
-    return typedRouteRegistry.getPrerenderableRoutes();
+    return Array.from(this.routes)
+      .filter(([, route]) => route.isPrerenderable())
+      .map(([path]) => path);
+  }
+
+  /**
+   * Build the OpenAPI document for the registered API routes
+   */
+  getOpenApiDocument(): OpenApiDocument {
+    return this.openApi.buildDocument(Array.from(this.routes));
+  }
+
+  /**
+   * Render prerenderable routes and all static files into a directory
+   * (dynamic routes are expanded with their staticPaths() params)
+   */
+  async exportStatic(
+    options: StaticExportOptions,
+  ): Promise<StaticExportResult> {
+    return await exportStaticSite({
+      // The export renders every page at once; rate limits are for clients
+      handle: (request) => this.handle(exemptFromRateLimits(request)),
+      routes: Array.from(this.routes),
+      files: [
+        ...staticFileManager.getAllPaths(),
+        ...await this.sitemap.getPaths(Array.from(this.routes)),
+      ],
+    }, options);
   }
 
   /**
@@ -399,8 +887,11 @@ export class WebliskFramework {
    * Start the framework server
    */
   async start(): Promise<void> {
-    const handler = (request: Request): Response | Promise<Response> => {
-      return this.handleRequest(request);
+    const handler = (
+      request: Request,
+      info: Deno.ServeHandlerInfo,
+    ): Response | Promise<Response> => {
+      return this.handle(request, info);
     };
 
     // Configure server options
@@ -464,6 +955,9 @@ export class WebliskFramework {
 
     this.server = Deno.serve(serverOptions, handler);
 
+    // Queue jobs again that a previous process left running
+    await this.jobs.restore();
+
     // Set up graceful shutdown
     let shuttingDown = false;
     const shutdownHandler = async () => {
@@ -487,12 +981,38 @@ export class WebliskFramework {
 
     Deno.addSignalListener("SIGINT", shutdownHandler);
     Deno.addSignalListener("SIGTERM", shutdownHandler);
-  } /**
-   * Handle incoming HTTP requests
+  }
+
+  /**
+   * Handle a request without starting the server
+   * (useful for tests or custom `Deno.serve` setups; pass the handler info
+   * so the client address is known)
    */
+  handle(request: Request, info?: Deno.ServeHandlerInfo): Promise<Response> {
+    const remoteAddr = info?.remoteAddr as Deno.NetAddr | undefined;
+    if (remoteAddr?.hostname) {
+      this.remoteAddresses.set(request, remoteAddr.hostname);
+    }
+    return this.handleRequest(request);
+  }
 
+  /**
+   * Handle incoming HTTP requests, compressing the response for the
+   * client's Accept-Encoding
+   */
   private async handleRequest(request: Request): Promise<Response> {
-    const url = new URL(request.url);
+    return await compressResponse(
+      request,
+      await this.routeRequest(request),
+      this.config.compression,
+    );
+  }
+
+  /**
+   * Route a request to the built-in endpoints, static files or routes
+   */
+  private async routeRequest(request: Request): Promise<Response> {
+    let url = new URL(request.url);
 
     try {
       // Health check endpoint
@@ -535,7 +1055,8 @@ export class WebliskFramework {
             status: 204,
             headers: {
               "Access-Control-Allow-Origin": origin,
-              "Access-Control-Allow-Methods": "GET, POST, PUT, DELETE, OPTIONS",
+              "Access-Control-Allow-Methods":
+                "GET, POST, PUT, PATCH, DELETE, OPTIONS",
               "Access-Control-Allow-Headers": "Content-Type, Authorization",
               "Access-Control-Allow-Credentials": "true",
               "Access-Control-Max-Age": "86400", // 24 hours
@@ -549,7 +1070,30 @@ export class WebliskFramework {
       if (url.pathname === "/ws") {
         const sessionId = this.cookieManager.getSessionId(request) ||
           this.cookieManager.generateSessionId();
-        return webSocketManager.handleUpgrade(request, sessionId);
+        return await webSocketManager.handleUpgrade(
+          request,
+          sessionId,
+          this.getClientIP(request),
+        );
+      }
+
+      // Redirects, rewrites and trailing slash normalization
+      const resolution = this.redirectManager.resolve(url);
+      if (resolution?.type === "redirect") {
+        return new Response(null, {
+          status: resolution.status,
+          headers: { "Location": resolution.location },
+        });
+      }
+      if (resolution?.type === "rewrite") {
+        logger.debug("Request rewritten", {
+          from: url.pathname,
+          to: resolution.url.pathname,
+        });
+        const rewritten = new Request(resolution.url, request);
+        if (isRateLimitExempt(request)) exemptFromRateLimits(rewritten);
+        request = rewritten;
+        url = resolution.url;
       }
 
       // Static file serving
@@ -558,213 +1102,529 @@ export class WebliskFramework {
         request,
       );
       if (staticResponse) {
-        return staticResponse;
+        const path = url.pathname;
+        return await compressResponse(
+          request,
+          staticResponse,
+          this.config.compression,
+          (encoding) => staticFileManager.getCompressed(path, encoding),
+        );
       }
 
-      // Route handling - try exact match first, then dynamic routes
-      let route = this.routes.get(url.pathname);
-      let routeParams: Record<string, string> = {};
-
-      if (!route) {
-        // Try to match dynamic routes
-        const matchResult = this.matchDynamicRoute(url.pathname);
-        if (matchResult) {
-          route = matchResult.route;
-          routeParams = matchResult.params;
-        }
+      // Route handling via the compiled router
+      const match = this.router.match(url.pathname);
+      if (match) {
+        return await this.handleRoute(match, request);
       }
 
-      if (route) {
-        return await this.handleRoute(route, request, routeParams);
-      }
+      // Generated sitemap and robots.txt
+      const seoResponse = await this.sitemap.handle(
+        request,
+        Array.from(this.routes),
+      );
+      if (seoResponse) return seoResponse;
 
-      // 404 Not Found
-      return new Response("Not Found", { status: 404 });
-    } catch (error) {
-      logger.error(
-        "Request handling failed",
-        error instanceof Error ? error : new Error(String(error)),
-        {
-          url: request.url,
-        },
+      // Generated OpenAPI document and docs page
+      const openApiResponse = this.openApi.handle(
+        request,
+        Array.from(this.routes),
+      );
+      if (openApiResponse) return openApiResponse;
+
+      // Job status endpoints
+      const jobResponse = await this.jobs.handle(
+        request,
+        this.cookieManager.getSessionId(request),
       );
+      if (jobResponse) return jobResponse;
 
-      return new Response("Internal Server Error", { status: 500 });
+      // 404 Not Found
+      return await this.renderErrorPage(
+        new HttpError("Not Found", 404, "NOT_FOUND"),
+        request,
+      );
+    } catch (error) {
+      return await this.renderErrorPage(error, request);
     }
   }
 
   /**
-   * Match a URL path against dynamic routes
+   * Handle route requests through the global and per-route middleware chain
    */
-  private matchDynamicRoute(
-    pathname: string,
-  ): { route: WebliskRoute; params: Record<string, string> } | null {
-    for (const [routePath, route] of this.routes) {
-      // Skip exact matches (already tried)
-      if (routePath === pathname) continue;
+  private async handleRoute(
+    match: RouteMatch<WebliskRoute>,
+    request: Request,
+  ): Promise<Response> {
+    const { pattern, params } = match;
+    const startTime = performance.now();
 
-      // Only check routes with parameters
-      if (!routePath.includes(":")) continue;
+    // Pick the API version the client asked for and refuse retired ones
+    let route = match.value;
+    try {
+      route = this.versions.get(pattern)?.select(
+        request,
+        this.config.versioning,
+      ) ?? route;
+      const lifecycle = getApiLifecycle(route);
+      if (lifecycle) assertNotSunset(lifecycle, this.getRouteVersion(route));
+      this.checkAccess(route, pattern, request);
+    } catch (error) {
+      return await this.routeErrorResponse(error, route, request, {
+        route: pattern,
+        params,
+      });
+    }
 
-      const params = this.matchRoutePattern(routePath, pathname);
-      if (params) {
-        return { route, params };
+    const sessionId = this.cookieManager.getSessionId(request);
+    const context = createRouteContext(
+      {
+        request,
+        framework: this,
+        params,
+        ...(sessionId ? { sessionId } : {}),
+        clientIP: this.getClientIP(request),
+      },
+      { limits: this.config.request, cookieManager: this.cookieManager },
+    );
+
+    // Route limits count refused credentials too, except limits keyed by
+    // API key, which need the verified key
+    const rateLimit = route.getRateLimitPolicy();
+    const routeRateLimit = rateLimit
+      ? [rateLimitMiddleware({ name: pattern, ...rateLimit }, this.rateLimiter)]
+      : [];
+    const keyedByApiKey = rateLimit?.key === "api-key";
+    const pipeline = composeMiddleware(
+      [
+        ...this.middleware,
+        ...(keyedByApiKey ? [] : routeRateLimit),
+        this.routeAuthMiddleware(route, pattern, params),
+        ...(keyedByApiKey ? routeRateLimit : []),
+        ...route.getMiddleware(),
+      ],
+      (routeContext) =>
+        this.pageCache.handle(
+          route,
+          pattern,
+          routeContext,
+          () => route.handleRequest(routeContext),
+        ),
+    );
+
+    let response: Response;
+    try {
+      response = await pipeline(context);
+    } catch (error) {
+      response = await this.renderErrorPage(error, request, {
+        route: pattern,
+        params,
+      });
+    }
+
+    // Track request (server errors count as failures)
+    frameworkMonitor.trackRequest(
+      performance.now() - startTime,
+      response.status < 500,
+    );
+
+    return this.applyVersionHeaders(response, route, pattern, request);
+  }
+
+  /**
+   * Authenticate (API key, bearer token) and authorize a route request,
+   * then apply the key's own rate limit; runs after the global middleware
+   * so refused attempts are rate limited and get CORS and security headers
+   */
+  private routeAuthMiddleware(
+    route: WebliskRoute,
+    pattern: string,
+    params: Record<string, string>,
+  ): Middleware {
+    return async (context, next) => {
+      let apiKey: ApiKeyRecord | null;
+      try {
+        apiKey = await this.authenticateApiKey(route, pattern, context.request);
+        const claims = await this.authenticateJwt(
+          route,
+          pattern,
+          context.request,
+        );
+        if (apiKey) context.apiKey = apiKeyIdentity(apiKey);
+        if (claims) context.claims = claims;
+
+        // Access rules run once the identity resolver can see the context
+        const redirect = await this.authorizeRoute(route, pattern, context);
+        if (redirect) return redirect;
+      } catch (error) {
+        return await this.routeErrorResponse(error, route, context.request, {
+          route: pattern,
+          params,
+        });
       }
+
+      if (!apiKey?.rateLimit) return next();
+      return rateLimitMiddleware(
+        { name: "api-key", key: "api-key", ...apiKey.rateLimit },
+        this.rateLimiter,
+      )(context, next);
+    };
+  }
+
+  /**
+   * JSON errors for API routes, error pages for everything else
+   */
+  private async routeErrorResponse(
+    error: unknown,
+    route: WebliskRoute,
+    request: Request,
+    matched: { route: string; params: Record<string, string> },
+  ): Promise<Response> {
+    return route instanceof WebliskApiRoute
+      ? WebliskApiRoute.errorResponse(error)
+      : await this.renderErrorPage(error, request, matched);
+  }
+
+  /**
+   * Check a route's `access` rule: anonymous page visitors are redirected
+   * to the login route (when one is registered), otherwise a 401 or 403
+   * HttpError is thrown
+   */
+  private async authorizeRoute(
+    route: WebliskRoute,
+    pattern: string,
+    context: RouteContext,
+  ): Promise<Response | null> {
+    const result = await this.checkRouteAccess(route, pattern, context);
+    if (result === "allowed") return null;
+
+    const { loginPath } = this.config.auth;
+    const method = context.request.method;
+    if (
+      result === "unauthenticated" && !(route instanceof WebliskApiRoute) &&
+      (method === "GET" || method === "HEAD") &&
+      context.url.pathname !== loginPath && this.router.match(loginPath)
+    ) {
+      return new Response(null, {
+        status: 302,
+        headers: { Location: loginRedirectUrl(context.url, this.config.auth) },
+      });
     }
-    return null;
+    throw WebliskFramework.accessError(result);
   }
 
   /**
-   * Match a specific route pattern against a pathname
+   * Resolve the principal for a protected route (setting
+   * `context.principal`) and check it against the route's rule
    */
-  private matchRoutePattern(
+  private async checkRouteAccess(
+    route: WebliskRoute,
     pattern: string,
-    pathname: string,
-  ): Record<string, string> | null {
-    const patternParts = pattern.split("/");
-    const pathnameParts = pathname.split("/");
+    context: RouteContext,
+  ): Promise<AuthorizationResult> {
+    const access = route.getAccess();
+    if (access === "public") return "allowed";
+
+    const principal = await this.resolvePrincipal(context);
+    if (principal) context.principal = principal;
+
+    const result = await authorize(
+      access,
+      principal,
+      context,
+      this.config.auth,
+    );
+    if (result !== "allowed") {
+      logger.logSecurity("Route access denied", {
+        route: pattern,
+        reason: result,
+        principal: principal?.id,
+        sessionId: context.sessionId,
+        ip: this.getClientIP(context.request),
+      });
+    }
+    return result;
+  }
 
-    // Must have same number of parts
-    if (patternParts.length !== pathnameParts.length) {
+  private async resolvePrincipal(
+    context: RouteContext,
+  ): Promise<Principal | null> {
+    if (this.identityResolver) return await this.identityResolver(context);
+    if (context.claims) return principalFromClaims(context.claims);
+
+    // Routes without jwtValidation still accept a valid bearer token
+    const token = this.jwt.isConfigured()
+      ? extractBearerToken(context.request)
+      : null;
+    if (!token) return null;
+    try {
+      return principalFromClaims(await this.jwt.verify(token));
+    } catch {
       return null;
     }
+  }
 
-    const params: Record<string, string> = {};
+  private static accessError(
+    result: Exclude<AuthorizationResult, "allowed">,
+  ): HttpError {
+    return result === "unauthenticated"
+      ? new HttpError("Authentication required", 401, "AUTHENTICATION_REQUIRED")
+      : new HttpError(
+        "You do not have access to this resource",
+        403,
+        "FORBIDDEN",
+      );
+  }
 
-    for (let i = 0; i < patternParts.length; i++) {
-      const patternPart = patternParts[i];
-      const pathnamePart = pathnameParts[i];
+  /**
+   * Client address: proxy headers when `security.trustProxy` is set,
+   * otherwise the connection's remote address
+   */
+  private getClientIP(request: Request): string {
+    return security.getClientIP(
+      request,
+      this.remoteAddresses.get(request),
+      this.config.security.trustProxy,
+      this.config.security.proxyHops,
+    );
+  }
 
-      if (patternPart.startsWith(":")) {
-        // Dynamic parameter
-        const paramName = patternPart.slice(1);
-        params[paramName] = decodeURIComponent(pathnamePart);
-      } else if (patternPart !== pathnamePart) {
-        // Static part doesn't match
-        return null;
-      }
+  /**
+   * Refuse clients outside the route's IP rules or with a blocked user
+   * agent (403), logging a security event
+   */
+  private checkAccess(
+    route: WebliskRoute,
+    pattern: string,
+    request: Request,
+  ): void {
+    const filter = route.getAccessFilter();
+    if (!filter) return;
+
+    const ip = this.getClientIP(request);
+    const userAgent = request.headers.get("User-Agent");
+    const denial = filter.check(ip, userAgent);
+    if (!denial) return;
+
+    logger.logSecurity("Request blocked by access rules", {
+      route: pattern,
+      method: request.method,
+      path: new URL(request.url).pathname,
+      reason: denial.code,
+      rule: denial.rule,
+      ip,
+      userAgent,
+    });
+    throw new HttpError(
+      denial.code === "USER_AGENT_BLOCKED"
+        ? "This client is not allowed to access this resource"
+        : "Access from your network is not allowed",
+      403,
+      denial.code,
+    );
+  }
+
+  /**
+   * Resolve the API key on routes with `apiKeyValidation`: 401 without an
+   * active key, 403 when the key may not call the route or lacks the
+   * route's `apiKeyScopes`
+   */
+  private async authenticateApiKey(
+    route: WebliskRoute,
+    pattern: string,
+    request: Request,
+  ): Promise<ApiKeyRecord | null> {
+    const rules = (route.getUserConfig() as TypedRouteConfig).advanced
+      ?.security;
+    if (!rules?.apiKeyValidation) return null;
+
+    const key = extractApiKey(request, this.config.apiKeys);
+    const record = key ? await this.apiKeys.verify(key) : null;
+    const audit = {
+      route: pattern,
+      method: request.method,
+      path: new URL(request.url).pathname,
+      ip: this.getClientIP(request),
+    };
+
+    if (!record) {
+      if (key) logger.logSecurity("Invalid API key", audit);
+      throw key
+        ? new HttpError("Invalid or expired API key", 401, "INVALID_API_KEY")
+        : new HttpError("API key required", 401, "API_KEY_REQUIRED");
     }
 
-    return params;
+    const missing = (rules.apiKeyScopes || []).filter((scope) =>
+      !hasScope(record.scopes, scope)
+    );
+    if (missing.length > 0) {
+      logger.logSecurity("API key lacks required scopes", {
+        ...audit,
+        keyId: record.id,
+        missing,
+      });
+      throw new HttpError(
+        "API key is missing required scopes",
+        403,
+        "INSUFFICIENT_SCOPE",
+        { required: missing },
+      );
+    }
+    if (!canAccessRoute(record, pattern)) {
+      logger.logSecurity("API key not allowed on route", {
+        ...audit,
+        keyId: record.id,
+      });
+      throw new HttpError(
+        "API key is not allowed to call this route",
+        403,
+        "API_KEY_ROUTE_FORBIDDEN",
+      );
+    }
+
+    return record;
   }
 
   /**
-   * Handle route requests
+   * Verify the bearer token on routes with `jwtValidation` (401 when it is
+   * missing or invalid)
    */
-  private async handleRoute(
+  private async authenticateJwt(
     route: WebliskRoute,
+    pattern: string,
     request: Request,
-    routeParams: Record<string, string> = {},
-  ): Promise<Response> {
-    const url = new URL(request.url);
-    const startTime = performance.now();
-
-    // Security checks
-    if (this.config.security.rateLimitEnabled) {
-      // Skip rate limiting for HEAD requests in development (used by auto-reload)
-      const isDevelopment = Deno.env.get("WEBLISK_ENV") === "development";
-      const isHeadRequest = request.method === "HEAD";
-
-      if (!isDevelopment || !isHeadRequest) {
-        const rateLimitConfig: RateLimitConfig = {
-          windowMs: this.config.security.rateLimitWindowMs,
-          maxRequests: this.config.security.rateLimitRequests,
-        };
-
-        if (!security.checkRateLimit(request, rateLimitConfig)) {
-          logger.warn("Rate limit exceeded", {
-            path: url.pathname,
-            ip: request.headers.get("X-Forwarded-For") || "unknown",
-          });
+  ): Promise<JwtClaims | null> {
+    const rules = (route.getUserConfig() as TypedRouteConfig).advanced
+      ?.security;
+    if (!rules?.jwtValidation) return null;
+
+    const token = extractBearerToken(request);
+    if (!token) {
+      throw new HttpError("Bearer token required", 401, "TOKEN_REQUIRED");
+    }
+    try {
+      return await this.jwt.verify(token);
+    } catch (error) {
+      logger.logSecurity("Invalid bearer token", {
+        route: pattern,
+        method: request.method,
+        path: new URL(request.url).pathname,
+        ip: this.getClientIP(request),
+        reason: error instanceof HttpError ? error.code : String(error),
+      });
+      throw error;
+    }
+  }
 
-          // Track failed request
-          frameworkMonitor.trackRequest(performance.now() - startTime, false);
+  private getRouteVersion(route: WebliskRoute): string | undefined {
+    return (route.getUserConfig() as TypedRouteConfig).version;
+  }
 
-          return new Response("Rate limit exceeded", {
-            status: 429,
-            headers: { "Retry-After": "60" },
-          });
-        }
+  /**
+   * Add Deprecation/Sunset/Link headers (logging the call) and Vary for
+   * paths negotiated between several versions
+   */
+  private applyVersionHeaders(
+    response: Response,
+    route: WebliskRoute,
+    pattern: string,
+    request: Request,
+  ): Response {
+    const lifecycle = getApiLifecycle(route);
+    const negotiated = (this.versions.get(pattern)?.size || 0) > 1;
+    if (!lifecycle && !negotiated) return response;
+
+    // Headers of redirect and fetched responses are immutable
+    const headers = new Headers(response.headers);
+    if (lifecycle) {
+      applyLifecycleHeaders(headers, lifecycle);
+      if (lifecycle.deprecationDate) {
+        const version = this.getRouteVersion(route);
+        frameworkMonitor.trackDeprecatedCall(pattern, version);
+        logger.warn("Deprecated API version called", {
+          route: pattern,
+          version,
+          userAgent: request.headers.get("User-Agent"),
+        });
       }
     }
-
-    // CORS check
-    const origin = request.headers.get("Origin");
-    if (this.config.security.corsEnabled && origin) {
-      if (
-        !security.validateCorsOrigin(origin, this.config.security.corsOrigins)
-      ) {
-        logger.warn("CORS violation", { origin, path: url.pathname });
-        frameworkMonitor.trackRequest(performance.now() - startTime, false);
-        return new Response("CORS not allowed", { status: 403 });
+    if (negotiated) {
+      const { strategies, header } = this.config.versioning;
+      const names = [
+        ...(strategies.includes("header") ? [header] : []),
+        ...(strategies.includes("media-type") ? ["Accept"] : []),
+      ];
+      const values = (headers.get("Vary") || "").split(",")
+        .map((value) => value.trim()).filter(Boolean);
+      const present = values.map((value) => value.toLowerCase());
+      const missing = names.filter((name) =>
+        !present.includes(name.toLowerCase())
+      );
+      if (!present.includes("*") && missing.length > 0) {
+        headers.set("Vary", [...values, ...missing].join(", "));
       }
     }
 
-    // Handle session using cookie manager
-    const sessionData = this.cookieManager.handleSession(request);
-    const { sessionId, isNewSession, cookieHeader } = sessionData;
-
-    logger.debug("HTTP Request session handling", {
-      path: url.pathname,
-      sessionId: sessionId.slice(-8), // Log only last 8 chars for security
-      isNewSession,
+    return new Response(response.body, {
+      status: response.status,
+      statusText: response.statusText,
+      headers,
     });
+  }
 
-    const context: RouteContext = {
-      request,
-      url,
-      framework: this,
-      sessionId,
-      params: routeParams,
-    };
-
-    const html = await route.render(context);
-
-    // Build response headers with security headers
-    const headers: Record<string, string> = {
-      "Content-Type": "text/html",
-    };
+  /**
+   * Render the error response for a failed or unmatched request: the dev
+   * overlay for server errors in debug mode, otherwise the closest custom
+   * notFound/error page, falling back to plain text
+   */
+  private async renderErrorPage(
+    error: unknown,
+    request: Request,
+    matched: { route?: string; params?: Record<string, string> } = {},
+  ): Promise<Response> {
+    const development = this.config.development.debugMode;
+    const info = describeError(error, request, { development, ...matched });
 
-    // Add security headers
-    if (this.config.security.securityHeadersEnabled) {
-      const securityHeaders = security.getSecurityHeaders(
-        !this.config.development.debugMode,
+    if (info.status >= 500) {
+      logger.error(
+        "Request handling failed",
+        error instanceof Error ? error : new Error(String(error)),
+        { url: request.url, route: matched.route },
       );
-      Object.assign(headers, securityHeaders);
 
-      // Only add HSTS over HTTPS
-      if (this.config.server.enableHttps && this.config.security.enableHSTS) {
-        headers["Strict-Transport-Security"] =
-          "max-age=31536000; includeSubDomains";
+      if (development) {
+        return new Response(renderErrorOverlay(info), {
+          status: info.status,
+          headers: { "Content-Type": "text/html" },
+        });
       }
     }
 
-    // Add CORS headers if enabled
-    if (this.config.security.corsEnabled && origin) {
-      if (
-        security.validateCorsOrigin(origin, this.config.security.corsOrigins)
-      ) {
-        headers["Access-Control-Allow-Origin"] = origin;
-        headers["Access-Control-Allow-Credentials"] = "true";
-        headers["Access-Control-Allow-Methods"] =
-          "GET, POST, PUT, DELETE, OPTIONS";
-        headers["Access-Control-Allow-Headers"] = "Content-Type, Authorization";
+    const page = this.errorPages.find(
+      info.path,
+      info.status === 404 ? "notFound" : "error",
+    );
+    if (page) {
+      try {
+        const context = createRouteContext(
+          { request, framework: this, params: info.params || {}, error: info },
+          { limits: this.config.request, cookieManager: this.cookieManager },
+        );
+        context.response?.status(info.status);
+        const response = await page.renderPage(context, info.status);
+        return context.response ? context.response.apply(response) : response;
+      } catch (pageError) {
+        logger.error(
+          "Error page failed to render",
+          pageError instanceof Error ? pageError : new Error(String(pageError)),
+          { url: request.url, status: info.status },
+        );
       }
     }
 
-    // Set session cookie if new session
-    if (isNewSession && cookieHeader) {
-      headers["Set-Cookie"] = cookieHeader;
-      logger.debug("Set new session cookie", {
-        path: url.pathname,
-        sessionId: sessionId.slice(-8),
-      });
-    }
-
-    // Track successful request
-    frameworkMonitor.trackRequest(performance.now() - startTime, true);
-
-    return new Response(html, { headers });
+    return new Response(info.message, {
+      status: info.status,
+      headers: { "Content-Type": "text/plain" },
+    });
   }
 
   /**
@@ -775,15 +1635,25 @@ export class WebliskFramework {
     connection: WebSocketConnection,
   ): Promise<unknown> {
     // Try to find a route that has the requested event handler
-    for (const route of this.routes.values()) {
+    for (const [pattern, route] of this.routes) {
       if (route.hasEvent(message.event)) {
-        const url = new URL("http://localhost/"); // Default URL for route events
-        const context: RouteContext = {
-          request: new Request("http://localhost/"),
-          url,
+        const rules = (route.getUserConfig() as TypedRouteConfig).advanced
+          ?.security;
+        if (rules?.jwtValidation) this.assertConnectionToken(connection);
+
+        // Events run with the upgrade request, so identity resolvers see
+        // the same headers, cookies and address as over HTTP
+        const request = connection.request ?? new Request("http://localhost/");
+        const context = createRouteContext({
+          request,
           framework: this,
           sessionId: connection.sessionId,
-        };
+          ...(connection.claims ? { claims: connection.claims } : {}),
+          clientIP: this.getClientIP(request),
+        });
+
+        const access = await this.checkRouteAccess(route, pattern, context);
+        if (access !== "allowed") throw WebliskFramework.accessError(access);
 
         return await route.handleEvent(
           message.event,
@@ -796,6 +1666,27 @@ export class WebliskFramework {
     throw new Error(`No route found with event handler for: ${message.event}`);
   }
 
+  /**
+   * Events of `jwtValidation` routes need a connection opened with a token
+   * that has not expired since
+   */
+  private assertConnectionToken(connection: WebSocketConnection): void {
+    const { claims } = connection;
+    if (!claims) {
+      throw new HttpError(
+        "This event requires a bearer token",
+        401,
+        "TOKEN_REQUIRED",
+      );
+    }
+    if (
+      typeof claims.exp === "number" &&
+      claims.exp + this.config.jwt.clockSkew <= Date.now() / 1000
+    ) {
+      throw new HttpError("Token has expired", 401, "TOKEN_EXPIRED");
+    }
+  }
+
   /**
    * Broadcast message to all connections
    */
@@ -904,6 +1795,11 @@ export class WebliskFramework {
       // Stop monitoring
       frameworkMonitor.stopPeriodicChecks();
 
+      // Let webhook deliveries that were already acknowledged and running
+      // jobs finish (queued jobs stay in the job store)
+      await this.webhooks.settle();
+      await this.jobs.stop();
+
       // Shutdown the server
       await this.server.shutdown();
       this.server = undefined;
@@ -5,12 +5,14 @@
 
 import { logger } from "./logger.ts";
 import { security } from "./security.ts";
-import type {
-  ComponentContext,
-  ComponentDefinition,
-  ServerEventMessage,
-  WebliskFramework,
-  WebSocketConnection,
+import { extractBearerToken, type JwtClaims, type JwtVerifier } from "./jwt.ts";
+import {
+  type ComponentContext,
+  type ComponentDefinition,
+  HttpError,
+  type ServerEventMessage,
+  type WebliskFramework,
+  type WebSocketConnection,
 } from "./types.ts";
 
 export interface WebSocketStats {
@@ -40,10 +42,53 @@ export class WebSocketManager {
     errors: 0,
   };
 
+  private tokenVerifier?: JwtVerifier;
+
+  /**
+   * Verify bearer tokens on upgrades (set by the framework); the token may
+   * also come in the `webSocketQueryParam` query parameter
+   */
+  setTokenVerifier(verifier?: JwtVerifier): void {
+    this.tokenVerifier = verifier;
+  }
+
   /**
-   * Handle WebSocket upgrade request
+   * Handle WebSocket upgrade request, refusing it (401) when a token is
+   * invalid, or missing while `requireForWebSocket` is set
    */
-  handleUpgrade(request: Request, sessionId: string): Response {
+  async handleUpgrade(
+    request: Request,
+    sessionId: string,
+    clientIP?: string,
+  ): Promise<Response> {
+    let claims: JwtClaims | undefined;
+    if (this.tokenVerifier) {
+      const config = this.tokenVerifier.getConfig();
+      const token = extractBearerToken(request, config.webSocketQueryParam);
+      try {
+        if (token) claims = await this.tokenVerifier.verify(token);
+        else if (config.requireForWebSocket) {
+          throw new HttpError("Bearer token required", 401, "TOKEN_REQUIRED");
+        }
+      } catch (error) {
+        const status = error instanceof HttpError ? error.status : 401;
+        const message = error instanceof Error ? error.message : String(error);
+        logger.logSecurity("WebSocket upgrade refused", {
+          sessionId,
+          ip: clientIP,
+          reason: message,
+        });
+        return new Response(message, {
+          status,
+          headers: {
+            "WWW-Authenticate": token
+              ? 'Bearer error="invalid_token"'
+              : "Bearer",
+          },
+        });
+      }
+    }
+
     const { socket, response } = Deno.upgradeWebSocket(request);
     const connectionId = crypto.randomUUID();
 
@@ -53,6 +98,8 @@ export class WebSocketManager {
       id: connectionId,
       sessionId,
       socket,
+      ...(claims ? { claims } : {}),
+      request,
       send: (data: unknown) => {
         if (socket.readyState === WebSocket.OPEN) {
           try {
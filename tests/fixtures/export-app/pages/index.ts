@@ -0,0 +1,4 @@
+export default {
+  type: "static",
+  template: () => "<h1>Exported home</h1>",
+};
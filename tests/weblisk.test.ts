@@ -3,10 +3,22 @@
  * Testing the new modular structure and clean API
  */
 
-import { assertEquals, assertExists } from "@std/assert";
-import { css, html, js, Weblisk } from "../mod.ts";
-import { WebliskError } from "../src/types.ts";
+import { assertEquals, assertExists, assertStringIncludes } from "@std/assert";
+import { css, html, js, json, Weblisk } from "../mod.ts";
+import { exportFilePath } from "../src/export.ts";
+import { HttpError, type RouteContext, WebliskError } from "../src/types.ts";
+import { WebliskRouter } from "../src/router.ts";
+import type { RouteErrorInfo } from "../src/error-pages.ts";
+import { createFormProcessor, type FormState } from "../src/forms.ts";
+import { WebliskRoute } from "../src/routes.ts";
+import { typedRouteRegistry } from "../src/route-types.ts";
 import { LOG_LEVELS, logger } from "../src/logger.ts";
+import { staticFileManager } from "../src/static.ts";
+import { AccessFilter, parseIPRange } from "../src/access-filter.ts";
+import { signJwt } from "../src/jwt.ts";
+import type { Principal } from "../src/authorization.ts";
+import { signWebhookPayload, type WebhookEvent } from "../src/webhooks.ts";
+import { backoffDelay, type JobSummary } from "../src/jobs.ts";
 
 // Test configuration
 const TEST_PORT = 3001;
@@ -399,4 +411,2247 @@ Deno.test("Weblisk Framework v1.0 - Integration Test", async (t) => {
   });
 });
 
+Deno.test("Weblisk Framework v1.0 - HTTP Method Handlers", async (t) => {
+  const app = new Weblisk(getTestConfig(TEST_PORT + 50));
+
+  app.route("/contact", {
+    template: () => html`<h1>Contact</h1>`,
+    post: (context) => ({ received: context.request.method }),
+  });
+  app.route("/page", {
+    template: () => html`<h1>Page</h1>`,
+  });
+  app.route("/items", {
+    post: () => new Response("created", { status: 201 }),
+    delete: () => null,
+  });
+
+  await t.step("GET falls back to page rendering", async () => {
+    const response = await app.handle(
+      new Request("http://localhost/contact"),
+    );
+    assertEquals(response.status, 200);
+    assertEquals(response.headers.get("Content-Type"), "text/html");
+    assertEquals((await response.text()).includes("<h1>Contact</h1>"), true);
+  });
+
+  await t.step("POST dispatches to the post handler", async () => {
+    const response = await app.handle(
+      new Request("http://localhost/contact", { method: "POST" }),
+    );
+    assertEquals(response.status, 200);
+    assertEquals(await response.json(), { received: "POST" });
+  });
+
+  await t.step("Handler responses and empty results", async () => {
+    const created = await app.handle(
+      new Request("http://localhost/items", { method: "POST" }),
+    );
+    assertEquals(created.status, 201);
+    assertEquals(await created.text(), "created");
+
+    const deleted = await app.handle(
+      new Request("http://localhost/items", { method: "DELETE" }),
+    );
+    assertEquals(deleted.status, 204);
+  });
+
+  await t.step("Unsupported methods return 405 with Allow", async () => {
+    const pagePost = await app.handle(
+      new Request("http://localhost/page", { method: "POST" }),
+    );
+    assertEquals(pagePost.status, 405);
+    assertEquals(pagePost.headers.get("Allow"), "GET, HEAD, OPTIONS");
+    await pagePost.body?.cancel();
+
+    const itemsGet = await app.handle(new Request("http://localhost/items"));
+    assertEquals(itemsGet.status, 405);
+    assertEquals(itemsGet.headers.get("Allow"), "POST, DELETE, OPTIONS");
+    await itemsGet.body?.cancel();
+  });
+
+  await t.step("HEAD and OPTIONS", async () => {
+    const head = await app.handle(
+      new Request("http://localhost/page", { method: "HEAD" }),
+    );
+    assertEquals(head.status, 200);
+    assertEquals(head.body, null);
+
+    const options = await app.handle(
+      new Request("http://localhost/contact", { method: "OPTIONS" }),
+    );
+    assertEquals(options.status, 204);
+    assertEquals(options.headers.get("Allow"), "GET, HEAD, POST, OPTIONS");
+  });
+});
+
+Deno.test("Weblisk Framework v1.0 - API Route JSON Responses", async (t) => {
+  const app = new Weblisk(getTestConfig(TEST_PORT + 60));
+
+  app.api("/api/users", {
+    data: () => ({ users: [{ id: 1, name: "Ada" }] }),
+    post: () => json({ id: 2 }, { status: 201, headers: { "X-Id": "2" } }),
+  });
+  app.publicApi("/api/public/users/missing", {
+    data: () => {
+      throw new HttpError("User not found", 404, "USER_NOT_FOUND", {
+        id: "missing",
+      });
+    },
+  });
+  app.privateApi("/api/private/broken", {
+    data: () => {
+      throw new Error("database offline");
+    },
+  });
+
+  await t.step("GET serializes data() as JSON", async () => {
+    const response = await app.handle(
+      new Request("http://localhost/api/users"),
+    );
+    assertEquals(response.status, 200);
+    assertEquals(response.headers.get("Content-Type"), "application/json");
+    assertEquals(await response.json(), { users: [{ id: 1, name: "Ada" }] });
+  });
+
+  await t.step("Handlers control status and headers", async () => {
+    const response = await app.handle(
+      new Request("http://localhost/api/users", { method: "POST" }),
+    );
+    assertEquals(response.status, 201);
+    assertEquals(response.headers.get("X-Id"), "2");
+    assertEquals(await response.json(), { id: 2 });
+  });
+
+  await t.step("Errors return structured JSON bodies", async () => {
+    const notFound = await app.handle(
+      new Request("http://localhost/api/public/users/missing"),
+    );
+    assertEquals(notFound.status, 404);
+    assertEquals(await notFound.json(), {
+      error: {
+        status: 404,
+        code: "USER_NOT_FOUND",
+        message: "User not found",
+        details: { id: "missing" },
+      },
+    });
+
+    const broken = await app.handle(
+      new Request("http://localhost/api/private/broken"),
+    );
+    assertEquals(broken.status, 500);
+    assertEquals((await broken.json()).error.code, "INTERNAL_ERROR");
+
+    const notAllowed = await app.handle(
+      new Request("http://localhost/api/users", { method: "DELETE" }),
+    );
+    assertEquals(notAllowed.status, 405);
+    assertEquals(notAllowed.headers.get("Allow"), "GET, HEAD, POST, OPTIONS");
+    assertEquals((await notAllowed.json()).error.code, "METHOD_NOT_ALLOWED");
+  });
+});
+
+Deno.test("Weblisk Framework v1.0 - Router", async (t) => {
+  await t.step("Precedence: static > param > wildcard", () => {
+    const router = new WebliskRouter<string>();
+    router.add("/docs/*path", "docs-wildcard");
+    router.add("/docs/:page", "docs-page");
+    router.add("/docs/intro", "docs-intro");
+
+    assertEquals(router.match("/docs/intro")?.value, "docs-intro");
+    assertEquals(router.match("/docs/setup")?.params, { page: "setup" });
+    assertEquals(router.match("/docs/guides/routing/advanced")?.params, {
+      path: "guides/routing/advanced",
+    });
+    assertEquals(router.match("/docs"), null);
+  });
+
+  await t.step("Constraints, optional params and backtracking", () => {
+    const router = new WebliskRouter<string>();
+    router.add("/users/:id<int>", "by-id");
+    router.add("/users/:name", "by-name");
+    router.add("/users/me/settings", "settings");
+    router.add("/posts/:slug([a-z-]+)/:lang?", "post");
+
+    assertEquals(router.match("/users/42")?.value, "by-id");
+    assertEquals(router.match("/users/ada")?.value, "by-name");
+    assertEquals(router.match("/users/me")?.params, { name: "me" });
+    assertEquals(router.match("/users/me/settings")?.value, "settings");
+    assertEquals(router.match("/posts/hello-world")?.params, {
+      slug: "hello-world",
+    });
+    assertEquals(router.match("/posts/hello-world/fr")?.params, {
+      slug: "hello-world",
+      lang: "fr",
+    });
+    assertEquals(router.match("/posts/Hello"), null);
+    assertEquals(router.match("/users/caf%C3%A9")?.params, { name: "café" });
+  });
+
+  await t.step("Conflict detection at registration", () => {
+    const router = new WebliskRouter<string>();
+    router.add("/users/:id", "first");
+    router.add("/users/:id", "replaced");
+    assertEquals(router.match("/users/1")?.value, "replaced");
+
+    let conflict: unknown;
+    try {
+      router.add("/users/:userId", "second");
+    } catch (error) {
+      conflict = error;
+    }
+    assertEquals((conflict as WebliskError).code, "ROUTE_CONFLICT");
+
+    let invalid: unknown;
+    try {
+      router.add("/files/*path/edit", "invalid");
+    } catch (error) {
+      invalid = error;
+    }
+    assertEquals((invalid as WebliskError).code, "INVALID_ROUTE");
+  });
+
+  await t.step("Framework dispatches through the router", async () => {
+    const app = new Weblisk(getTestConfig(TEST_PORT + 70));
+    app.route("/blog/:year<int>/*slug", {
+      get: (context) => ({ params: context.params }),
+    });
+
+    const response = await app.handle(
+      new Request("http://localhost/blog/2025/hello/world"),
+    );
+    assertEquals(await response.json(), {
+      params: { year: "2025", slug: "hello/world" },
+    });
+  });
+
+  await t.step("Conflicting routes are not registered", () => {
+    const app = new Weblisk(getTestConfig(TEST_PORT + 71));
+    app.route("/catalogue/:id", { type: "static", template: () => "" });
+
+    let conflict: unknown;
+    try {
+      app.route("/catalogue/:slug", { type: "dynamic", template: () => "" });
+    } catch (error) {
+      conflict = error;
+    }
+    assertEquals((conflict as WebliskError).code, "ROUTE_CONFLICT");
+    assertEquals(
+      typedRouteRegistry.getOptimization("/catalogue/:slug"),
+      undefined,
+    );
+  });
+});
+
+Deno.test("Weblisk Framework v1.0 - Middleware Pipeline", async (t) => {
+  await t.step("Global and route middleware run in order", async () => {
+    const app = new Weblisk(getTestConfig(TEST_PORT + 80));
+    const calls: string[] = [];
+
+    app.use(async (context, next) => {
+      calls.push("global:before");
+      context.tenant = "acme";
+      const response = await next();
+      calls.push("global:after");
+      response.headers.set("X-Request-Id", "req-1");
+      return response;
+    });
+    app.route("/tenant", {
+      middleware: [(_context, next) => {
+        calls.push("route");
+        return next();
+      }],
+      get: (context) => ({ tenant: context.tenant }),
+    });
+
+    const response = await app.handle(new Request("http://localhost/tenant"));
+    assertEquals(await response.json(), { tenant: "acme" });
+    assertEquals(response.headers.get("X-Request-Id"), "req-1");
+    assertEquals(calls, ["global:before", "route", "global:after"]);
+  });
+
+  await t.step("Middleware can short-circuit with a Response", async () => {
+    const app = new Weblisk(getTestConfig(TEST_PORT + 81));
+    let rendered = false;
+
+    app.use((context, next) =>
+      context.request.headers.get("Authorization")
+        ? next()
+        : new Response("Unauthorized", { status: 401 })
+    );
+    app.route("/private", {
+      get: () => {
+        rendered = true;
+        return "secret";
+      },
+    });
+
+    const response = await app.handle(new Request("http://localhost/private"));
+    assertEquals(response.status, 401);
+    assertEquals(rendered, false);
+  });
+
+  await t.step("Built-in security middleware is replaceable", async () => {
+    const app = new Weblisk(getTestConfig(TEST_PORT + 82, {
+      security: { rateLimitEnabled: false, securityHeadersEnabled: true },
+    }));
+    assertEquals(app.getMiddlewareNames(), ["session", "securityHeaders"]);
+
+    app.route("/headers", { get: () => "ok" });
+    const before = await app.handle(new Request("http://localhost/headers"));
+    assertEquals(before.headers.get("X-Frame-Options"), "DENY");
+    assertExists(before.headers.get("Set-Cookie"));
+
+    app.replaceMiddleware("securityHeaders", async (_context, next) => {
+      const response = await next();
+      response.headers.set("X-Frame-Options", "SAMEORIGIN");
+      return response;
+    });
+    assertEquals(app.removeMiddleware("session"), true);
+
+    const after = await app.handle(new Request("http://localhost/headers"));
+    assertEquals(after.headers.get("X-Frame-Options"), "SAMEORIGIN");
+    assertEquals(after.headers.get("Set-Cookie"), null);
+  });
+});
+
+Deno.test("Weblisk Framework v1.0 - Route Groups and Mounting", async (t) => {
+  await t.step("Groups share prefix, defaults and middleware", async () => {
+    const app = new Weblisk(getTestConfig(TEST_PORT + 90));
+    const calls: string[] = [];
+    app.setIdentityResolver(() => ({ id: "ada", roles: ["admin"] }));
+
+    app.group("/admin", {
+      access: "admin",
+      middleware: [(_context, next) => {
+        calls.push("admin");
+        return next();
+      }],
+    }, (admin) => {
+      admin.api("/stats", { get: () => ({ users: 3 }) });
+      admin.group("/reports", (reports) => {
+        reports.use((_context, next) => {
+          calls.push("reports");
+          return next();
+        });
+        reports.api("/:year<int>", {
+          get: (context) => ({ year: context.params?.year }),
+        });
+      });
+    });
+
+    const stats = await app.handle(
+      new Request("http://localhost/admin/stats"),
+    );
+    assertEquals(await stats.json(), { users: 3 });
+
+    const report = await app.handle(
+      new Request("http://localhost/admin/reports/2024"),
+    );
+    assertEquals(await report.json(), { year: "2024" });
+    assertEquals(calls, ["admin", "admin", "reports"]);
+
+    const info = app.getRouteInfo();
+    assertExists(info["/admin/stats"]);
+    assertExists(info["/admin/reports/:year<int>"]);
+  });
+
+  await t.step("Mount a separately constructed application", async () => {
+    const billing = new Weblisk(getTestConfig(TEST_PORT + 91));
+    billing.use(async (_context, next) => {
+      const response = await next();
+      response.headers.set("X-Module", "billing");
+      return response;
+    });
+    billing.api("/invoices/:id", {
+      get: (context) => ({ invoice: context.params?.id }),
+    });
+    billing.route("/", { get: () => "Billing home" });
+
+    const app = new Weblisk(getTestConfig(TEST_PORT + 92));
+    app.mount("/billing", billing);
+
+    const invoice = await app.handle(
+      new Request("http://localhost/billing/invoices/42"),
+    );
+    assertEquals(await invoice.json(), { invoice: "42" });
+    assertEquals(invoice.headers.get("X-Module"), "billing");
+
+    const home = await app.handle(new Request("http://localhost/billing"));
+    assertEquals(await home.text(), "Billing home");
+
+    const outside = await app.handle(
+      new Request("http://localhost/invoices/42"),
+    );
+    assertEquals(outside.status, 404);
+  });
+});
+
+Deno.test("Weblisk Framework v1.0 - Error Pages", async (t) => {
+  await t.step("App-level and group-level notFound pages", async () => {
+    const app = new Weblisk(getTestConfig(TEST_PORT + 100));
+    app.notFound({ template: () => "<h1>Page not found</h1>" });
+    app.group("/docs", {
+      notFound: { template: () => "<h1>Doc not found</h1>" },
+    }, (docs) => {
+      docs.route("/intro", { template: () => "<h1>Intro</h1>" });
+    });
+    app.route("/missing/:id", {
+      data: () => {
+        throw new HttpError("Missing", 404, "NOT_FOUND");
+      },
+    });
+
+    const root = await app.handle(new Request("http://localhost/nope"));
+    assertEquals(root.status, 404);
+    assertStringIncludes(await root.text(), "Page not found");
+
+    const docs = await app.handle(new Request("http://localhost/docs/nope"));
+    assertEquals(docs.status, 404);
+    assertStringIncludes(await docs.text(), "Doc not found");
+
+    const thrown = await app.handle(new Request("http://localhost/missing/1"));
+    assertEquals(thrown.status, 404);
+    assertStringIncludes(await thrown.text(), "Page not found");
+  });
+
+  await t.step("Error page hides details in production", async () => {
+    const app = new Weblisk(getTestConfig(TEST_PORT + 101));
+    app.error({
+      data: (context) => ({
+        message: (context.error as RouteErrorInfo).message,
+      }),
+      template: (data) => `<h1>Oops: ${data.message}</h1>`,
+    });
+    app.route("/broken", {
+      data: () => {
+        throw new Error("database password is hunter2");
+      },
+    });
+
+    const response = await app.handle(new Request("http://localhost/broken"));
+    assertEquals(response.status, 500);
+    const body = await response.text();
+    assertStringIncludes(body, "Oops: Internal Server Error");
+    assertEquals(body.includes("hunter2"), false);
+  });
+
+  await t.step("Development overlay shows the failing route", async () => {
+    const app = new Weblisk(getTestConfig(TEST_PORT + 102, {
+      development: { debugMode: true },
+    }));
+    app.route("/posts/:slug", {
+      data: () => {
+        throw new Error("Post <lookup> failed");
+      },
+    });
+
+    const response = await app.handle(
+      new Request("http://localhost/posts/hello-world"),
+    );
+    assertEquals(response.status, 500);
+    assertEquals(response.headers.get("Content-Type"), "text/html");
+
+    const body = await response.text();
+    assertStringIncludes(body, "Post &lt;lookup&gt; failed");
+    assertStringIncludes(body, "/posts/:slug");
+    assertStringIncludes(body, "hello-world");
+    assertStringIncludes(body, "data()");
+  });
+});
+
+Deno.test("Weblisk Framework v1.0 - Redirects and Rewrites", async (t) => {
+  await t.step("Redirect rules from config and app.redirect", async () => {
+    const app = new Weblisk(getTestConfig(TEST_PORT + 110, {
+      routing: {
+        redirects: [
+          { source: "/old-about", destination: "/about" },
+          { source: "/blog/:slug", destination: "/posts/:slug" },
+          {
+            source: "/docs/*path",
+            destination: "https://docs.example.com/*path",
+            permanent: false,
+          },
+        ],
+      },
+    }));
+    app.redirect("/promo", "/sale?ref=promo", { preserveQuery: false });
+
+    const exact = await app.handle(new Request("http://localhost/old-about"));
+    assertEquals(exact.status, 301);
+    assertEquals(exact.headers.get("Location"), "/about");
+
+    const param = await app.handle(
+      new Request("http://localhost/blog/hello?utm=mail"),
+    );
+    assertEquals(param.headers.get("Location"), "/posts/hello?utm=mail");
+
+    const wildcard = await app.handle(
+      new Request("http://localhost/docs/guides/routing"),
+    );
+    assertEquals(wildcard.status, 302);
+    assertEquals(
+      wildcard.headers.get("Location"),
+      "https://docs.example.com/guides/routing",
+    );
+
+    const promo = await app.handle(
+      new Request("http://localhost/promo?utm=ad"),
+    );
+    assertEquals(promo.headers.get("Location"), "/sale?ref=promo");
+  });
+
+  await t.step("Rewrites serve another route in place", async () => {
+    const app = new Weblisk(getTestConfig(TEST_PORT + 111));
+    app.rewrite("/u/:name", "/users/:name");
+    app.route("/users/:name", {
+      get: (context) => ({
+        name: context.params?.name,
+        path: context.url.pathname,
+      }),
+    });
+
+    const response = await app.handle(new Request("http://localhost/u/ada"));
+    assertEquals(response.status, 200);
+    assertEquals(await response.json(), { name: "ada", path: "/users/ada" });
+  });
+
+  await t.step("Trailing slash normalization", async () => {
+    const never = new Weblisk(getTestConfig(TEST_PORT + 112, {
+      routing: { trailingSlash: "never" },
+    }));
+    const stripped = await never.handle(
+      new Request("http://localhost/about/?x=1"),
+    );
+    assertEquals(stripped.status, 308);
+    assertEquals(stripped.headers.get("Location"), "/about?x=1");
+
+    const always = new Weblisk(getTestConfig(TEST_PORT + 113, {
+      routing: { trailingSlash: "always" },
+    }));
+    const added = await always.handle(new Request("http://localhost/about"));
+    assertEquals(added.headers.get("Location"), "/about/");
+
+    const file = await always.handle(
+      new Request("http://localhost/robots.txt"),
+    );
+    assertEquals(file.headers.get("Location"), null);
+
+    const doubled = await never.handle(
+      new Request("http://localhost//evil.com/"),
+    );
+    assertEquals(doubled.headers.get("Location"), "/evil.com");
+  });
+
+  await t.step("Params cannot redirect to another site", async () => {
+    const app = new Weblisk(getTestConfig(TEST_PORT + 114));
+    app.redirect("/go/*rest", "/*rest");
+
+    for (const path of ["/go/%2Fevil.com", "/go/%2F%2Fevil.com"]) {
+      const response = await app.handle(
+        new Request(`http://localhost${path}`),
+      );
+      assertEquals(response.status, 301);
+      assertEquals(response.headers.get("Location"), "/evil.com");
+    }
+  });
+});
+
+Deno.test("Weblisk Framework v1.0 - Request Query and Body", async (t) => {
+  await t.step("Lazy query with arrays and coercion", async () => {
+    const app = new Weblisk(getTestConfig(TEST_PORT + 120));
+    app.api("/search", {
+      get: ({ query }) => ({
+        page: query?.int("page", 1),
+        limit: query?.int("limit", 20),
+        draft: query?.boolean("draft"),
+        tags: query?.getAll("tag"),
+        all: query?.toObject(),
+      }),
+    });
+
+    const response = await app.handle(
+      new Request("http://localhost/search?page=3&limit=abc&draft&tag=a&tag=b"),
+    );
+    assertEquals(await response.json(), {
+      page: 3,
+      limit: 20,
+      draft: true,
+      tags: ["a", "b"],
+      all: { page: "3", limit: "abc", draft: "", tag: ["a", "b"] },
+    });
+  });
+
+  await t.step("JSON and urlencoded bodies", async () => {
+    const app = new Weblisk(getTestConfig(TEST_PORT + 121));
+    app.api("/echo", { post: async ({ body }) => ({ body: await body!() }) });
+
+    const jsonResponse = await app.handle(
+      new Request("http://localhost/echo", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ name: "Ada" }),
+      }),
+    );
+    assertEquals(await jsonResponse.json(), { body: { name: "Ada" } });
+
+    const formResponse = await app.handle(
+      new Request("http://localhost/echo", {
+        method: "POST",
+        headers: { "Content-Type": "application/x-www-form-urlencoded" },
+        body: "name=Ada&role=admin&role=dev",
+      }),
+    );
+    assertEquals(await formResponse.json(), {
+      body: { name: "Ada", role: ["admin", "dev"] },
+    });
+
+    const invalid = await app.handle(
+      new Request("http://localhost/echo", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: "{not json",
+      }),
+    );
+    assertEquals(invalid.status, 400);
+    assertEquals((await invalid.json()).error.code, "INVALID_JSON");
+  });
+
+  await t.step("Body size limits", async () => {
+    const app = new Weblisk(getTestConfig(TEST_PORT + 122, {
+      request: { maxBodySize: 16, maxMultipartSize: 1024 },
+    }));
+    app.api("/echo", { post: async ({ body }) => ({ body: await body!() }) });
+
+    const response = await app.handle(
+      new Request("http://localhost/echo", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ message: "this body is too long" }),
+      }),
+    );
+    assertEquals(response.status, 413);
+    assertEquals((await response.json()).error.code, "PAYLOAD_TOO_LARGE");
+  });
+
+  await t.step("Multipart submissions feed the form processor", async () => {
+    const app = new Weblisk(getTestConfig(TEST_PORT + 123));
+    const processor = createFormProcessor({
+      rules: { email: { required: true, type: "email" } },
+    });
+    app.api("/upload", {
+      post: async (context) => {
+        const result = await processor.processRequest(context);
+        return {
+          isValid: result.isValid,
+          data: result.data,
+          files: Object.keys(result.files || {}),
+        };
+      },
+    });
+
+    const formData = new FormData();
+    formData.append("email", "ada@example.com");
+    formData.append("avatar", new File(["png"], "avatar.png"));
+
+    const response = await app.handle(
+      new Request("http://localhost/upload", {
+        method: "POST",
+        body: formData,
+      }),
+    );
+    assertEquals(await response.json(), {
+      isValid: true,
+      data: { email: "ada@example.com" },
+      files: ["avatar"],
+    });
+
+    for (const body of ["null", "[1, 2]", '"text"']) {
+      const refused = await app.handle(
+        new Request("http://localhost/upload", {
+          method: "POST",
+          headers: { "Content-Type": "application/json" },
+          body,
+        }),
+      );
+      assertEquals(refused.status, 400);
+      assertEquals((await refused.json()).error.code, "INVALID_BODY");
+    }
+  });
+});
+
+Deno.test("Weblisk Framework v1.0 - No-JS Form Submissions", async (t) => {
+  const submissions: Record<string, unknown>[] = [];
+  const contactForm = {
+    form: {
+      rules: { email: { required: true, message: "Email is required" } },
+      onSuccess: (data: Record<string, unknown>) => {
+        submissions.push(data);
+        return { id: submissions.length };
+      },
+      redirect: (result: unknown) =>
+        `/thanks?id=${(result as { id: number }).id}`,
+    },
+    template: (data: Record<string, unknown>) => {
+      const form = data.form as FormState;
+      return `<form method="post">
+        <input name="name" value="${form.values.name ?? ""}">
+        <span class="error">${form.errors.email ?? ""}</span>
+      </form>`;
+    },
+  };
+
+  await t.step("Invalid POST re-renders with errors and values", async () => {
+    const app = new Weblisk(getTestConfig(TEST_PORT + 130));
+    app.form("/contact", contactForm);
+
+    const response = await app.handle(
+      new Request("http://localhost/contact", {
+        method: "POST",
+        headers: { "Content-Type": "application/x-www-form-urlencoded" },
+        body: "name=%3CAda%3E&email=",
+      }),
+    );
+    assertEquals(response.status, 422);
+    const body = await response.text();
+    assertStringIncludes(body, "Email is required");
+    assertStringIncludes(body, 'value="&lt;Ada&gt;"');
+    assertEquals(submissions.length, 0);
+  });
+
+  await t.step("Valid POST redirects (Post/Redirect/Get)", async () => {
+    const app = new Weblisk(getTestConfig(TEST_PORT + 131));
+    app.form("/contact", contactForm);
+
+    const response = await app.handle(
+      new Request("http://localhost/contact", {
+        method: "POST",
+        headers: { "Content-Type": "application/x-www-form-urlencoded" },
+        body: "name=Ada&email=ada%40example.com",
+      }),
+    );
+    assertEquals(response.status, 303);
+    assertEquals(response.headers.get("Location"), "/thanks?id=1");
+    assertEquals(submissions[0], { name: "Ada", email: "ada@example.com" });
+
+    const page = await app.handle(new Request("http://localhost/contact"));
+    assertEquals(page.status, 200);
+  });
+
+  await t.step("Same config handles the WebSocket form-submit event", () => {
+    const route = new WebliskRoute(contactForm);
+    assertEquals(route.hasEvent("form-submit"), true);
+    assertEquals(route.getAllowedMethods(), ["GET", "HEAD", "POST", "OPTIONS"]);
+  });
+});
+
+Deno.test("Weblisk Framework v1.0 - Response Control", async (t) => {
+  await t.step("data() sets status, headers and cookies", async () => {
+    const app = new Weblisk(getTestConfig(TEST_PORT + 140));
+    app.route("/products/:id", {
+      data: (context) => {
+        context.response?.status(404).header("Cache-Control", "no-store")
+          .cookie("last_seen", context.params?.id || "");
+        return { id: context.params?.id };
+      },
+      template: (data) => `<p>Missing ${data.id}</p>`,
+    });
+
+    const response = await app.handle(
+      new Request("http://localhost/products/42"),
+    );
+    assertEquals(response.status, 404);
+    assertEquals(response.headers.get("Cache-Control"), "no-store");
+    assertStringIncludes(
+      response.headers.get("Set-Cookie") || "",
+      "last_seen=42",
+    );
+    assertStringIncludes(await response.text(), "Missing 42");
+  });
+
+  await t.step("data() can redirect or return a Response", async () => {
+    const app = new Weblisk(getTestConfig(TEST_PORT + 141));
+    app.route("/account", {
+      data: (context) => {
+        context.response?.redirect("/login");
+        return {};
+      },
+      template: () => "<p>Account</p>",
+    });
+    app.route("/feed.xml", {
+      data: () =>
+        new Response("<rss></rss>", {
+          headers: { "Content-Type": "application/rss+xml" },
+        }),
+      template: () => "<p>Never rendered</p>",
+    });
+
+    const redirect = await app.handle(new Request("http://localhost/account"));
+    assertEquals(redirect.status, 302);
+    assertEquals(redirect.headers.get("Location"), "/login");
+
+    const feed = await app.handle(new Request("http://localhost/feed.xml"));
+    assertEquals(feed.headers.get("Content-Type"), "application/rss+xml");
+    assertEquals(await feed.text(), "<rss></rss>");
+  });
+
+  await t.step("Handlers use the builder status for JSON results", async () => {
+    const app = new Weblisk(getTestConfig(TEST_PORT + 142));
+    app.route("/items", {
+      post: (context) => {
+        context.response?.status(201).header("Location", "/items/1");
+        return { id: 1 };
+      },
+      template: () => "<p>Items</p>",
+    });
+
+    const response = await app.handle(
+      new Request("http://localhost/items", { method: "POST" }),
+    );
+    assertEquals(response.status, 201);
+    assertEquals(response.headers.get("Location"), "/items/1");
+    assertEquals(await response.json(), { id: 1 });
+  });
+});
+
+Deno.test("Weblisk Framework v1.0 - Content Negotiation", async (t) => {
+  const productsRoute = {
+    negotiate: { fields: ["products"], list: "products" },
+    data: () => ({
+      products: [{ id: 1 }, { id: 2 }],
+      internalToken: "secret",
+    }),
+    template: (data: Record<string, unknown>) =>
+      `<ul>${(data.products as unknown[]).length} products</ul>`,
+  };
+
+  await t.step("Accept header selects HTML, JSON or NDJSON", async () => {
+    const app = new Weblisk(getTestConfig(TEST_PORT + 150));
+    app.route("/products", productsRoute);
+    const get = (accept: string) =>
+      app.handle(
+        new Request("http://localhost/products", { headers: { accept } }),
+      );
+
+    const page = await get("text/html,application/xhtml+xml,*/*;q=0.8");
+    assertEquals(page.headers.get("Content-Type"), "text/html");
+    assertEquals(page.headers.get("Vary"), "Accept, Accept-Encoding");
+    assertStringIncludes(await page.text(), "2 products");
+
+    const data = await get("application/json");
+    assertEquals(data.headers.get("Vary"), "Accept, Accept-Encoding");
+    assertEquals(await data.json(), { products: [{ id: 1 }, { id: 2 }] });
+
+    const stream = await get("application/x-ndjson");
+    assertEquals(await stream.text(), '{"id":1}\n{"id":2}\n');
+  });
+
+  await t.step("Routes opt out of group negotiation", async () => {
+    const app = new Weblisk(getTestConfig(TEST_PORT + 151));
+    app.group("/shop", { negotiate: true }, (shop) => {
+      shop.route("/open", { data: () => ({ ok: true }), template: () => "" });
+      shop.route("/closed", {
+        negotiate: false,
+        data: () => ({ ok: true }),
+        template: () => "<p>HTML only</p>",
+      });
+    });
+    const accept = { headers: { accept: "application/json" } };
+
+    const open = await app.handle(
+      new Request("http://localhost/shop/open", accept),
+    );
+    assertEquals(await open.json(), { ok: true });
+
+    const closed = await app.handle(
+      new Request("http://localhost/shop/closed", accept),
+    );
+    assertEquals(closed.headers.get("Content-Type"), "text/html");
+    assertEquals(closed.headers.get("Vary"), "Accept-Encoding");
+  });
+});
+
+Deno.test("Weblisk Framework v1.0 - Streaming Rendering", async (t) => {
+  const dashboard = (stream: boolean, sales: Promise<string>) => ({
+    stream,
+    data: (context: RouteContext) => ({
+      widget: context.defer?.(
+        sales.then((total) => `<p>Sales: ${total}</p>`),
+        { fallback: "<p>Loading...</p>" },
+      ),
+    }),
+    template: (data: Record<string, unknown>) => `<main>${data.widget}</main>`,
+  });
+
+  await t.step(
+    "Streaming routes flush the page before slow content",
+    async () => {
+      let release = (_total: string) => {};
+      const sales = new Promise<string>((resolve) => release = resolve);
+      const app = new Weblisk(getTestConfig(TEST_PORT + 160));
+      app.route("/dashboard", dashboard(true, sales));
+
+      const response = await app.handle(
+        new Request("http://localhost/dashboard"),
+      );
+      const reader = response.body!.getReader();
+      const decoder = new TextDecoder();
+
+      const shell = decoder.decode((await reader.read()).value);
+      assertStringIncludes(shell, "<head>");
+      assertStringIncludes(shell, "Loading...");
+
+      release("42");
+      let rest = "";
+      for (let chunk = await reader.read(); !chunk.done;) {
+        rest += decoder.decode(chunk.value);
+        chunk = await reader.read();
+      }
+      assertStringIncludes(
+        rest,
+        '<template id="weblisk-slot-1-content"><p>Sales: 42</p></template>',
+      );
+      assertStringIncludes(rest, "</html>");
+    },
+  );
+
+  await t.step("Buffered routes inline deferred content", async () => {
+    const app = new Weblisk(getTestConfig(TEST_PORT + 161));
+    app.route("/dashboard", dashboard(false, Promise.resolve("42")));
+
+    const body = await (await app.handle(
+      new Request("http://localhost/dashboard"),
+    )).text();
+    assertStringIncludes(body, "<main><p>Sales: 42</p></main>");
+  });
+});
+
+Deno.test("Weblisk Framework v1.0 - Page Caching", async (t) => {
+  await t.step("Static routes are cached with ETag/304 support", async () => {
+    let renders = 0;
+    const app = new Weblisk(getTestConfig(TEST_PORT + 170));
+    app.route("/pricing", {
+      type: "static",
+      data: () => ({ renders: ++renders }),
+      template: (data) => `<p>Render ${data.renders}</p>`,
+    });
+    const get = (path: string, headers: Record<string, string> = {}) =>
+      app.handle(new Request(`http://localhost${path}`, { headers }));
+
+    const first = await get("/pricing");
+    assertEquals(first.headers.get("X-Weblisk-Cache"), "MISS");
+    assertStringIncludes(await first.text(), "Render 1");
+    const etag = first.headers.get("ETag")!;
+
+    const second = await get("/pricing");
+    assertEquals(second.headers.get("X-Weblisk-Cache"), "HIT");
+    assertStringIncludes(await second.text(), "Render 1");
+
+    const notModified = await get("/pricing", { "If-None-Match": etag });
+    assertEquals(notModified.status, 304);
+    assertEquals(await notModified.text(), "");
+
+    await (await get("/pricing?plan=pro")).text();
+    await (await get("/pricing", { "Accept-Language": "fr-FR" })).text();
+    assertEquals(renders, 3);
+
+    const authenticated = await get("/pricing", { Authorization: "Bearer x" });
+    assertEquals(authenticated.headers.get("X-Weblisk-Cache"), null);
+    assertStringIncludes(await authenticated.text(), "Render 4");
+
+    assertEquals(app.invalidateCache("/pricing"), 3);
+    assertStringIncludes(await (await get("/pricing")).text(), "Render 5");
+  });
+
+  await t.step("Protected pages are never cached", async () => {
+    const app = new Weblisk(getTestConfig(TEST_PORT + 172));
+    let user = "ada";
+    app.setIdentityResolver(() => ({ id: user, roles: [] }));
+    app.route("/dashboard", {
+      type: "static",
+      access: "authenticated",
+      data: (context) => ({ user: context.principal?.id }),
+      template: (data) => `<p>${data.user}</p>`,
+    });
+
+    const first = await app.handle(new Request("http://localhost/dashboard"));
+    assertEquals(first.headers.get("X-Weblisk-Cache"), null);
+    assertStringIncludes(await first.text(), "<p>ada</p>");
+
+    user = "grace";
+    const second = await app.handle(new Request("http://localhost/dashboard"));
+    assertStringIncludes(await second.text(), "<p>grace</p>");
+  });
+
+  await t.step(
+    "Template strategy reuses documents for equal data",
+    async () => {
+      let templateRuns = 0;
+      const app = new Weblisk(getTestConfig(TEST_PORT + 171));
+      app.route("/catalog", {
+        type: "dynamic",
+        optimization: { cacheStrategy: "template" },
+        data: () => ({ items: ["a", "b"] }),
+        template: (data) => {
+          templateRuns++;
+          return `<p>${(data.items as string[]).join(",")}</p>`;
+        },
+      });
+
+      // Rendered documents embed the session ID, so reuse one session
+      const first = await app.handle(new Request("http://localhost/catalog"));
+      const cookie = first.headers.get("Set-Cookie")!.split(";")[0];
+      await first.text();
+
+      for (let i = 0; i < 2; i++) {
+        const response = await app.handle(
+          new Request("http://localhost/catalog", { headers: { cookie } }),
+        );
+        assertStringIncludes(await response.text(), "<p>a,b</p>");
+      }
+      assertEquals(templateRuns, 1);
+    },
+  );
+});
+
+Deno.test("Weblisk Framework v1.0 - Response Compression", async (t) => {
+  const gunzip = async (response: Response) =>
+    await new Response(
+      response.body!.pipeThrough(new DecompressionStream("gzip")),
+    ).text();
+
+  await t.step("Pages are compressed above the threshold", async () => {
+    const app = new Weblisk(getTestConfig(TEST_PORT + 180));
+    app.route("/report", { template: () => "<p>row</p>".repeat(500) });
+    app.route("/ping", { get: () => ({ ok: true }) });
+    const headers = { "Accept-Encoding": "gzip;q=1, br;q=0" };
+
+    const page = await app.handle(
+      new Request("http://localhost/report", { headers }),
+    );
+    assertEquals(page.headers.get("Content-Encoding"), "gzip");
+    assertStringIncludes(page.headers.get("Vary") || "", "Accept-Encoding");
+    assertStringIncludes(await gunzip(page), "<p>row</p><p>row</p>");
+
+    const small = await app.handle(
+      new Request("http://localhost/ping", { headers }),
+    );
+    assertEquals(small.headers.get("Content-Encoding"), null);
+    assertEquals(await small.json(), { ok: true });
+  });
+
+  await t.step("Static files are served from compressed variants", async () => {
+    const app = new Weblisk(getTestConfig(TEST_PORT + 181));
+    const stylesheet = "body { margin: 0; }\n".repeat(200);
+    app.addStaticFile("/compression-test.css", stylesheet);
+
+    const request = () =>
+      app.handle(
+        new Request("http://localhost/compression-test.css", {
+          headers: { "Accept-Encoding": "gzip" },
+        }),
+      );
+    const first = await request();
+    assertEquals(first.headers.get("Content-Encoding"), "gzip");
+    assertStringIncludes(first.headers.get("ETag") || "", "W/");
+    assertEquals(await gunzip(first), stylesheet);
+    assertEquals(await gunzip(await request()), stylesheet);
+
+    const plain = await app.handle(
+      new Request("http://localhost/compression-test.css"),
+    );
+    assertEquals(plain.headers.get("Content-Encoding"), null);
+    assertEquals(await plain.text(), stylesheet);
+  });
+});
+
+Deno.test("Weblisk Framework v1.0 - Static Export", async (t) => {
+  await t.step(
+    "Prerenderable routes and static files are written",
+    async () => {
+      const app = new Weblisk(getTestConfig(TEST_PORT + 190, {
+        seo: { siteUrl: "https://example.com" },
+      }));
+      app.route("/about", { type: "static", template: () => "<h1>About</h1>" });
+      app.route("/blog/:slug", {
+        type: "static",
+        staticPaths: () => [{ slug: "hello" }, { slug: "second-post" }],
+        data: (context: RouteContext) => ({ slug: context.params?.slug }),
+        template: (data) => `<h1>Post ${data.slug}</h1>`,
+      });
+      app.route("/docs/:page", {
+        type: "static",
+        template: () => "<p>Docs</p>",
+      });
+      app.route("/dashboard", { template: () => "<p>Dashboard</p>" });
+      app.addStaticFile("/export-test.txt", "exported");
+
+      const written = new Map<string, string>();
+      const result = await app.exportStatic({
+        outDir: "dist",
+        writeFile: (path, content) => {
+          written.set(path, new TextDecoder().decode(content));
+          return Promise.resolve();
+        },
+      });
+
+      assertEquals(result.failed, []);
+      assertEquals(
+        result.pages.filter((path) => path !== "/404.html"),
+        ["/about", "/blog/hello", "/blog/second-post"],
+      );
+      assertStringIncludes(written.get("dist/about/index.html") || "", "About");
+      assertStringIncludes(
+        written.get("dist/blog/second-post/index.html") || "",
+        "Post second-post",
+      );
+      assertEquals(written.has("dist/dashboard/index.html"), false);
+      assertEquals(written.get("dist/export-test.txt"), "exported");
+      assertStringIncludes(
+        written.get("dist/sitemap.xml") || "",
+        "<loc>https://example.com/about</loc>",
+      );
+      assertEquals(result.skipped.map((entry) => entry.path), ["/docs/:page"]);
+    },
+  );
+
+  await t.step("Sitemaps are not exported without a site URL", async () => {
+    const app = new Weblisk(getTestConfig(TEST_PORT + 191));
+    app.route("/about", { type: "static", template: () => "<h1>About</h1>" });
+
+    const written: string[] = [];
+    const result = await app.exportStatic({
+      outDir: "dist",
+      notFoundPage: false,
+      writeFile: (path) => {
+        written.push(path);
+        return Promise.resolve();
+      },
+    });
+    assertEquals(result.failed, []);
+    assertEquals(result.pages, ["/about"]);
+    assertEquals(written.includes("dist/sitemap.xml"), false);
+  });
+
+  await t.step("Exports are not rate limited", async () => {
+    const app = new Weblisk(getTestConfig(TEST_PORT + 195, {
+      seo: { sitemap: false },
+    }));
+    app.route("/p/:id", {
+      type: "static",
+      rateLimit: { maxRequests: 1, windowMs: 60000 },
+      staticPaths: () => [{ id: "1" }, { id: "2" }, { id: "3" }],
+      template: () => "<p>Page</p>",
+    });
+
+    const result = await app.exportStatic({
+      outDir: "dist",
+      notFoundPage: false,
+      writeFile: () => Promise.resolve(),
+    });
+    assertEquals(result.failed, []);
+    assertEquals(result.pages, ["/p/1", "/p/2", "/p/3"]);
+    assertEquals(
+      (await app.handle(new Request("http://localhost/p/1"))).status,
+      200,
+    );
+    assertEquals(
+      (await app.handle(new Request("http://localhost/p/1"))).status,
+      429,
+    );
+  });
+
+  await t.step("Route patterns build concrete paths", () => {
+    assertEquals(
+      WebliskRouter.buildPath("/users/:id/files/*path", {
+        id: "42",
+        path: "a b/c.txt",
+      }),
+      "/users/42/files/a%20b/c.txt",
+    );
+    assertEquals(WebliskRouter.buildPath("/posts/:page?", {}), "/posts");
+    assertEquals(exportFilePath("/about", false), "about.html");
+    assertEquals(exportFilePath("/feed.xml"), "feed.xml");
+  });
+
+  await t.step("The export task writes an app's pages", async () => {
+    const outDir = await Deno.makeTempDir();
+    try {
+      const { code, stderr } = await new Deno.Command(Deno.execPath(), {
+        args: ["task", "export", "tests/fixtures/export-app", outDir],
+        cwd: new URL("..", import.meta.url),
+        env: { WEBLISK_SITE_URL: "https://example.com" },
+        stdout: "null",
+        stderr: "piped",
+        signal: AbortSignal.timeout(60_000),
+      }).output();
+      assertEquals(code, 0, new TextDecoder().decode(stderr));
+      assertStringIncludes(
+        await Deno.readTextFile(`${outDir}/index.html`),
+        "Exported home",
+      );
+      assertStringIncludes(
+        await Deno.readTextFile(`${outDir}/robots.txt`),
+        "Sitemap: https://example.com/sitemap.xml",
+      );
+    } finally {
+      await Deno.remove(outDir, { recursive: true });
+    }
+  });
+});
+
+Deno.test("Weblisk Framework v1.0 - Sitemap and robots.txt", async (t) => {
+  const app = new Weblisk(
+    getTestConfig(TEST_PORT + 200, {
+      seo: {
+        siteUrl: "https://example.com",
+        robots: [{ userAgent: "*", disallow: ["/admin"] }],
+      },
+    }),
+  );
+  app.route("/", {
+    type: "static",
+    meta: { canonical: "https://example.com/home" },
+    template: () => "<h1>Home</h1>",
+  });
+  app.route("/news/:slug", {
+    type: "dynamic",
+    staticPaths: () => [{ slug: "launch" }],
+    template: () => "<h1>News</h1>",
+  });
+  app.route("/admin", {
+    meta: { robots: "noindex, nofollow" },
+    template: () => "<h1>Admin</h1>",
+  });
+  app.route("/api/items", { type: "api", get: () => ({ items: [] }) });
+
+  await t.step("Sitemap lists indexable page routes", async () => {
+    const response = await app.handle(
+      new Request("http://localhost/sitemap.xml"),
+    );
+    assertEquals(response.status, 200);
+    assertStringIncludes(
+      response.headers.get("Content-Type") || "",
+      "application/xml",
+    );
+
+    const xml = await response.text();
+    assertStringIncludes(xml, "<loc>https://example.com/home</loc>");
+    assertStringIncludes(xml, "<changefreq>monthly</changefreq>");
+    assertStringIncludes(xml, "<loc>https://example.com/news/launch</loc>");
+    assertStringIncludes(xml, "<changefreq>daily</changefreq>");
+    assertEquals(xml.includes("/admin"), false);
+    assertEquals(xml.includes("/api/items"), false);
+  });
+
+  await t.step(
+    "robots.txt is generated with the sitemap reference",
+    async () => {
+      // A hand-written robots.txt static file (added above) takes precedence
+      staticFileManager.removeFile("/robots.txt");
+      const response = await app.handle(
+        new Request("http://localhost/robots.txt"),
+      );
+      assertEquals(
+        await response.text(),
+        "User-agent: *\nDisallow: /admin\n\nSitemap: https://example.com/sitemap.xml\n",
+      );
+    },
+  );
+});
+
+Deno.test("Weblisk Framework v1.0 - OpenAPI Documentation", async (t) => {
+  const app = new Weblisk(
+    getTestConfig(TEST_PORT + 210, {
+      openapi: { title: "Partner API", version: "2.1.0" },
+    }),
+  );
+  app.publicApi("/v1/orders/:id<int>", {
+    description: "Order lookup",
+    version: "1.4",
+    get: () => ({ id: 1 }),
+    put: () => ({ updated: true }),
+    openapi: {
+      tags: ["orders"],
+      response: { type: "object", properties: { id: { type: "integer" } } },
+      methods: { put: { requestBody: { type: "object" } } },
+    },
+    advanced: { apiManagement: { deprecationDate: new Date("2024-01-01") } },
+  });
+  app.api("/internal/stats", { get: () => ({ ok: true }) });
+
+  await t.step("Document describes public API routes", async () => {
+    const response = await app.handle(
+      new Request("http://localhost/openapi.json"),
+    );
+    assertEquals(response.status, 200);
+
+    const doc = await response.json();
+    assertEquals(doc.openapi, "3.1.0");
+    assertEquals(doc.info, { title: "Partner API", version: "2.1.0" });
+    assertEquals(doc.servers, [{ url: "http://localhost" }]);
+    assertEquals(Object.keys(doc.paths), ["/v1/orders/{id}"]);
+    assertEquals(Object.keys(doc.paths["/v1/orders/{id}"]), ["get", "put"]);
+
+    const { get, put } = doc.paths["/v1/orders/{id}"];
+    assertEquals(get.description, "Order lookup");
+    assertEquals(get.tags, ["orders"]);
+    assertEquals(get.deprecated, true);
+    assertEquals(get["x-api-version"], "1.4");
+    assertEquals(get.parameters[0].schema.pattern, "^(?:\\d+)$");
+    assertEquals(
+      get.responses["200"].content["application/json"].schema.properties.id,
+      { type: "integer" },
+    );
+    assertEquals(get.requestBody, undefined);
+    assertEquals(put.requestBody.content["application/json"].schema, {
+      type: "object",
+    });
+  });
+
+  await t.step("Interactive docs page is served", async () => {
+    const response = await app.handle(new Request("http://localhost/api-docs"));
+    assertEquals(response.status, 200);
+    const page = await response.text();
+    assertStringIncludes(page, "<title>Partner API - API Reference</title>");
+    assertStringIncludes(page, '"/openapi.json"');
+  });
+
+  await t.step("Docs are reachable with trailing slashes", async () => {
+    const slashed = new Weblisk(getTestConfig(TEST_PORT + 211, {
+      routing: { trailingSlash: "always" },
+    }));
+    const redirect = await slashed.handle(
+      new Request("http://localhost/api-docs"),
+    );
+    assertEquals(redirect.status, 308);
+    const location = redirect.headers.get("Location")!;
+    const response = await slashed.handle(
+      new Request(`http://localhost${location}`),
+    );
+    assertEquals(response.status, 200);
+    assertStringIncludes(await response.text(), "API Reference");
+  });
+});
+
+Deno.test("Weblisk Framework v1.0 - API Versioning", async (t) => {
+  const app = new Weblisk(getTestConfig(TEST_PORT + 220));
+  app.api("/orders", {
+    version: "1",
+    get: () => ({ version: 1 }),
+    advanced: {
+      apiManagement: {
+        deprecationDate: new Date("2024-01-01T00:00:00Z"),
+        sunsetDate: new Date("2099-01-01T00:00:00Z"),
+        migrationPath: "/v2/orders",
+      },
+    },
+  });
+  app.api("/orders", { version: "2", get: () => ({ version: 2 }) });
+  app.api("/legacy", {
+    version: "1",
+    get: () => ({ ok: true }),
+    advanced: {
+      apiManagement: { sunsetDate: new Date("2020-01-01T00:00:00Z") },
+    },
+  });
+
+  const get = (path: string, headers: HeadersInit = {}) =>
+    app.handle(new Request(`http://localhost${path}`, { headers }));
+
+  await t.step("Unversioned requests get the oldest version", async () => {
+    const response = await get("/orders");
+    assertEquals(await response.json(), { version: 1 });
+    assertEquals(response.headers.get("Deprecation"), "@1704067200");
+    assertEquals(
+      response.headers.get("Sunset"),
+      "Thu, 01 Jan 2099 00:00:00 GMT",
+    );
+    assertEquals(
+      response.headers.get("Link"),
+      '</v2/orders>; rel="successor-version"',
+    );
+    assertStringIncludes(response.headers.get("Vary") || "", "Accept-Version");
+  });
+
+  await t.step(
+    "Versions are selected by header, media type and URL",
+    async () => {
+      const byHeader = await get("/orders", { "Accept-Version": "2" });
+      assertEquals(await byHeader.json(), { version: 2 });
+      assertEquals(byHeader.headers.get("Deprecation"), null);
+
+      const byMediaType = await get("/orders", {
+        "Accept": "application/vnd.weblisk.v2+json",
+      });
+      assertEquals(await byMediaType.json(), { version: 2 });
+
+      assertEquals(await (await get("/v2/orders")).json(), { version: 2 });
+      const v1 = await get("/v1/orders");
+      assertEquals(await v1.json(), { version: 1 });
+      assertExists(v1.headers.get("Deprecation"));
+    },
+  );
+
+  await t.step("Unknown and retired versions are refused", async () => {
+    const unknown = await get("/orders", { "Accept-Version": "3" });
+    assertEquals(unknown.status, 406);
+    assertEquals(
+      (await unknown.json()).error.code,
+      "UNSUPPORTED_API_VERSION",
+    );
+
+    const retired = await get("/legacy");
+    assertEquals(retired.status, 410);
+    assertEquals((await retired.json()).error.code, "API_VERSION_SUNSET");
+  });
+
+  await t.step("Deprecated calls are counted", async () => {
+    const metrics = await (await get("/metrics")).text();
+    assertStringIncludes(
+      metrics,
+      'weblisk_deprecated_api_calls_total{route="/orders",version="1"}',
+    );
+  });
+});
+
+Deno.test("Weblisk Framework v1.0 - Route Rate Limits", async (t) => {
+  const app = new Weblisk(getTestConfig(TEST_PORT + 230));
+  const get = (path: string, headers: HeadersInit = {}) =>
+    app.handle(new Request(`http://localhost${path}`, { headers }));
+
+  await t.step("Fixed window limits send RateLimit headers", async () => {
+    app.route("/search", {
+      rateLimit: { maxRequests: 2, windowMs: 60000, algorithm: "fixed-window" },
+      get: () => ({ results: [] }),
+    });
+
+    const first = await get("/search");
+    assertEquals(first.headers.get("RateLimit-Limit"), "2");
+    assertEquals(first.headers.get("RateLimit-Remaining"), "1");
+    assertEquals(first.headers.get("RateLimit-Policy"), "2;w=60");
+    assertEquals((await get("/search")).status, 200);
+
+    const refused = await get("/search");
+    assertEquals(refused.status, 429);
+    assertEquals(refused.headers.get("RateLimit-Remaining"), "0");
+    assertExists(refused.headers.get("Retry-After"));
+  });
+
+  await t.step("API burst limits use a token bucket per API key", async () => {
+    app.api("/quotes", {
+      get: () => ({ quotes: [] }),
+      advanced: {
+        apiManagement: {
+          rateLimit: { maxRequests: 60, windowMs: 60000, burstLimit: 2 },
+        },
+      },
+    });
+    app.route("/keyed", {
+      rateLimit: { maxRequests: 1, windowMs: 60000, key: "api-key" },
+      advanced: { security: { apiKeyValidation: true } },
+      get: () => ({ ok: true }),
+    });
+    app.route("/unverified", {
+      rateLimit: { maxRequests: 1, windowMs: 60000, key: "api-key" },
+      get: () => ({ ok: true }),
+    });
+
+    assertEquals((await get("/quotes")).status, 200);
+    assertEquals((await get("/quotes")).status, 200);
+    const refused = await get("/quotes");
+    assertEquals(refused.status, 429);
+    assertEquals(refused.headers.get("Retry-After"), "1");
+
+    const { key: a } = await app.apiKeys.create();
+    const { key: b } = await app.apiKeys.create();
+    assertEquals((await get("/keyed", { "X-API-Key": a })).status, 200);
+    assertEquals((await get("/keyed", { "X-API-Key": b })).status, 200);
+    assertEquals((await get("/keyed", { "X-API-Key": a })).status, 429);
+
+    // Keys that were not verified count against the client address
+    assertEquals((await get("/unverified", { "X-API-Key": "a" })).status, 200);
+    assertEquals((await get("/unverified", { "X-API-Key": "b" })).status, 429);
+  });
+
+  await t.step("Failed requests can be left uncounted", async () => {
+    app.route("/login", {
+      rateLimit: { maxRequests: 1, windowMs: 60000, skipFailedRequests: true },
+      get: () => {
+        throw new HttpError("Bad credentials", 401, "UNAUTHORIZED");
+      },
+    });
+
+    assertEquals((await get("/login")).status, 401);
+    assertEquals((await get("/login")).status, 401);
+  });
+
+  await t.step("Clients are counted by their remote address", async () => {
+    app.route("/per-client", {
+      rateLimit: { maxRequests: 1, windowMs: 60000 },
+      get: () => ({ ok: true }),
+    });
+    const from = (ip: string, headers: HeadersInit = {}) =>
+      app.handle(
+        new Request("http://localhost/per-client", { headers }),
+        {
+          remoteAddr: { transport: "tcp", hostname: ip, port: 40000 },
+        } as Deno.ServeHandlerInfo,
+      );
+
+    assertEquals((await from("203.0.113.1")).status, 200);
+    assertEquals((await from("203.0.113.2")).status, 200);
+    // Proxy headers are ignored unless security.trustProxy is set
+    const spoofed = await from("203.0.113.1", {
+      "X-Forwarded-For": "198.51.100.9",
+    });
+    assertEquals(spoofed.status, 429);
+  });
+});
+
+Deno.test("Weblisk Framework v1.0 - Route Access Filtering", async (t) => {
+  const app = new Weblisk(getTestConfig(TEST_PORT + 240));
+  const get = (path: string, ip: string, headers: HeadersInit = {}) =>
+    app.handle(
+      new Request(`http://localhost${path}`, { headers }),
+      {
+        remoteAddr: { transport: "tcp", hostname: ip, port: 40000 },
+      } as Deno.ServeHandlerInfo,
+    );
+
+  await t.step("CIDR ranges match IPv4, IPv6 and mapped addresses", () => {
+    const filter = new AccessFilter({
+      ipWhitelist: ["10.0.0.0/8", "2001:db8::/32", "192.168.1.7"],
+    });
+    assertEquals(filter.check("10.20.30.40", null), null);
+    assertEquals(filter.check("::ffff:10.0.0.1", null), null);
+    assertEquals(filter.check("2001:db8:1::5", null), null);
+    assertEquals(filter.check("192.168.1.7", null), null);
+    assertEquals(filter.check("192.168.1.8", null)?.code, "IP_NOT_ALLOWED");
+    assertEquals(filter.check("2001:db9::1", null)?.code, "IP_NOT_ALLOWED");
+    assertEquals(filter.check("unknown", null)?.code, "IP_NOT_ALLOWED");
+    assertEquals(parseIPRange("10.0.0.0/33"), null);
+    assertEquals(parseIPRange("2001:db8::1::/64"), null);
+  });
+
+  await t.step("Group allowlists restrict admin routes", async () => {
+    app.group("/admin", {
+      advanced: { security: { ipWhitelist: ["10.0.0.0/8", "fd00::/8"] } },
+    }, (admin) => {
+      admin.route("/", {
+        type: "admin",
+        access: "public",
+        get: () => ({ ok: true }),
+      });
+    });
+
+    assertEquals((await get("/admin", "10.1.2.3")).status, 200);
+    assertEquals((await get("/admin", "fd12::1")).status, 200);
+    const refused = await get("/admin", "203.0.113.9", {
+      "X-Forwarded-For": "10.1.2.3",
+    });
+    assertEquals(refused.status, 403);
+  });
+
+  await t.step("Deny lists and user agents refuse API clients", async () => {
+    app.api("/reports", {
+      get: () => ({ reports: [] }),
+      advanced: {
+        security: {
+          ipBlacklist: ["198.51.100.0/24"],
+          userAgentBlocking: ["sqlmap|nikto", "/^$/"],
+        },
+      },
+    });
+
+    const ok = { "User-Agent": "Mozilla/5.0" };
+    assertEquals((await get("/reports", "203.0.113.9", ok)).status, 200);
+
+    const blocked = await get("/reports", "198.51.100.20", ok);
+    assertEquals(blocked.status, 403);
+    assertEquals((await blocked.json()).error.code, "IP_BLOCKED");
+
+    const scanner = await get("/reports", "203.0.113.9", {
+      "User-Agent": "SQLMap/1.7",
+    });
+    assertEquals((await scanner.json()).error.code, "USER_AGENT_BLOCKED");
+    assertEquals((await get("/reports", "203.0.113.9")).status, 403);
+  });
+
+  await t.step("Proxy headers are used only when trusted", async () => {
+    const proxied = new Weblisk(getTestConfig(TEST_PORT + 241, {
+      security: { ...getTestConfig(0).security, trustProxy: true },
+    }));
+    proxied.route("/internal", {
+      advanced: { security: { ipWhitelist: ["10.0.0.0/8"] } },
+      get: () => ({ ok: true }),
+    });
+
+    const forwarded = (chain: string) =>
+      proxied.handle(
+        new Request("http://localhost/internal", {
+          headers: { "X-Forwarded-For": chain },
+        }),
+      );
+
+    // The proxy appends the client it saw; earlier entries are client input
+    assertEquals((await forwarded("203.0.113.5, 10.9.8.7")).status, 200);
+    assertEquals((await forwarded("10.9.8.7, 203.0.113.5")).status, 403);
+  });
+});
+
+Deno.test("Weblisk Framework v1.0 - API Keys", async (t) => {
+  const app = new Weblisk(getTestConfig(TEST_PORT + 250));
+  const get = (path: string, headers: HeadersInit = {}) =>
+    app.handle(new Request(`http://localhost${path}`, { headers }));
+
+  app.api("/orders", {
+    get: (context: RouteContext) => ({ caller: context.apiKey?.name }),
+    advanced: {
+      security: { apiKeyValidation: true, apiKeyScopes: ["orders:read"] },
+    },
+  });
+  app.api("/reports", {
+    get: () => ({ reports: [] }),
+    advanced: { security: { apiKeyValidation: true } },
+  });
+
+  await t.step("Keys are hashed and resolve to an identity", async () => {
+    const { key, record } = await app.apiKeys.create({
+      name: "billing",
+      scopes: ["orders:*"],
+    });
+    assertEquals(key.startsWith("wlk_"), true);
+    assertEquals(record.hash.includes(key), false);
+
+    const response = await get("/orders", { "X-API-Key": key });
+    assertEquals(response.status, 200);
+    assertEquals(await response.json(), { caller: "billing" });
+    assertEquals(
+      (await get(`/orders?api_key=${key}`)).status,
+      200,
+    );
+    assertExists((await app.apiKeys.store.get(record.id))?.lastUsedAt);
+  });
+
+  await t.step(
+    "Missing, unknown and unauthorized keys are refused",
+    async () => {
+      const missing = await get("/orders");
+      assertEquals(missing.status, 401);
+      assertEquals((await missing.json()).error.code, "API_KEY_REQUIRED");
+
+      const unknown = await get("/orders", {
+        Authorization: "ApiKey wlk_nope",
+      });
+      assertEquals((await unknown.json()).error.code, "INVALID_API_KEY");
+
+      const { key } = await app.apiKeys.create({
+        scopes: ["reports:read"],
+        routes: ["/reports"],
+      });
+      const scoped = await get("/orders", { Authorization: `Bearer ${key}` });
+      assertEquals(scoped.status, 403);
+      assertEquals((await scoped.json()).error.code, "INSUFFICIENT_SCOPE");
+      assertEquals((await get("/reports", { "X-API-Key": key })).status, 200);
+
+      const { key: other } = await app.apiKeys.create({ routes: ["/status"] });
+      const forbidden = await get("/reports", { "X-API-Key": other });
+      assertEquals(
+        (await forbidden.json()).error.code,
+        "API_KEY_ROUTE_FORBIDDEN",
+      );
+    },
+  );
+
+  await t.step("Rotated keys overlap, revoked keys stop at once", async () => {
+    const { key, record } = await app.apiKeys.create({ scopes: ["*"] });
+    const rotated = await app.apiKeys.rotate(record.id, 60);
+    assertEquals((await get("/orders", { "X-API-Key": key })).status, 200);
+    assertEquals(
+      (await get("/orders", { "X-API-Key": rotated.key })).status,
+      200,
+    );
+
+    const expired = await app.apiKeys.create({ scopes: ["*"] });
+    await app.apiKeys.rotate(expired.record.id, 0);
+    assertEquals(
+      (await get("/orders", { "X-API-Key": expired.key })).status,
+      401,
+    );
+
+    await app.apiKeys.revoke(rotated.record.id);
+    assertEquals(
+      (await get("/orders", { "X-API-Key": rotated.key })).status,
+      401,
+    );
+  });
+
+  await t.step("Keys can carry their own rate limit", async () => {
+    const { key } = await app.apiKeys.create({
+      scopes: ["*"],
+      rateLimit: { maxRequests: 1, windowMs: 60000 },
+    });
+    assertEquals((await get("/reports", { "X-API-Key": key })).status, 200);
+    assertEquals((await get("/orders", { "X-API-Key": key })).status, 429);
+  });
+
+  await t.step("Refusals pass through the global middleware", async () => {
+    const guarded = new Weblisk(getTestConfig(TEST_PORT + 251, {
+      security: {
+        ...getTestConfig(0).security,
+        rateLimitEnabled: true,
+        rateLimitRequests: 2,
+        securityHeadersEnabled: true,
+      },
+    }));
+    guarded.api("/orders", {
+      get: () => ({ orders: [] }),
+      advanced: { security: { apiKeyValidation: true } },
+    });
+    const attempt = (path: string) =>
+      guarded.handle(
+        new Request(`http://localhost${path}`, {
+          headers: { "X-API-Key": "wlk_guess" },
+        }),
+      );
+
+    const invalid = await attempt("/orders");
+    assertEquals(invalid.status, 401);
+    assertEquals(invalid.headers.get("X-Content-Type-Options"), "nosniff");
+
+    // Guessing keys counts against the global rate limit
+    assertEquals((await attempt("/orders")).status, 401);
+    assertEquals((await attempt("/orders")).status, 429);
+  });
+});
+
+Deno.test("Weblisk Framework v1.0 - JWT Validation", async (t) => {
+  const secret = "test-secret-with-enough-entropy-0123456789";
+  const ecKeys = await crypto.subtle.generateKey(
+    { name: "ECDSA", namedCurve: "P-256" },
+    true,
+    ["sign", "verify"],
+  );
+  const publicKey = {
+    ...await crypto.subtle.exportKey("jwk", ecKeys.publicKey),
+    kid: "ec-1",
+  };
+
+  const app = new Weblisk(getTestConfig(TEST_PORT + 260, {
+    jwt: {
+      secret,
+      keys: [publicKey],
+      issuer: "https://auth.example.com",
+      audience: "weblisk-tests",
+      clockSkew: 30,
+      requireForWebSocket: true,
+    },
+  }));
+  const get = (path: string, token?: string) =>
+    app.handle(
+      new Request(`http://localhost${path}`, {
+        headers: token ? { Authorization: `Bearer ${token}` } : {},
+      }),
+    );
+  const claims = {
+    sub: "user-1",
+    iss: "https://auth.example.com",
+    aud: "weblisk-tests",
+  };
+
+  app.api("/me", {
+    get: (context: RouteContext) => ({ subject: context.claims?.sub }),
+    advanced: { security: { jwtValidation: true } },
+  });
+
+  await t.step("HS256 and ES256 tokens expose their claims", async () => {
+    const hs = await signJwt(claims, secret, { expiresIn: 60 });
+    const response = await get("/me", hs);
+    assertEquals(response.status, 200);
+    assertEquals(await response.json(), { subject: "user-1" });
+
+    const es = await signJwt(claims, ecKeys.privateKey, {
+      algorithm: "ES256",
+      kid: "ec-1",
+      expiresIn: 60,
+    });
+    assertEquals((await get("/me", es)).status, 200);
+  });
+
+  await t.step("Invalid tokens are refused with a reason", async () => {
+    const codeOf = async (token?: string) =>
+      (await (await get("/me", token)).json()).error.code;
+
+    assertEquals(await codeOf(), "TOKEN_REQUIRED");
+    assertEquals(
+      await codeOf(await signJwt(claims, "another-secret", { expiresIn: 60 })),
+      "INVALID_SIGNATURE",
+    );
+    assertEquals(
+      await codeOf(await signJwt(claims, secret, { expiresIn: -120 })),
+      "TOKEN_EXPIRED",
+    );
+    assertEquals(
+      await codeOf(
+        await signJwt({ ...claims, aud: "other" }, secret, { expiresIn: 60 }),
+      ),
+      "INVALID_AUDIENCE",
+    );
+    assertEquals(
+      await codeOf(
+        await signJwt({ ...claims, nbf: Date.now() / 1000 + 300 }, secret, {
+          expiresIn: 600,
+        }),
+      ),
+      "TOKEN_NOT_YET_VALID",
+    );
+    assertEquals(
+      await codeOf(await signJwt(claims, secret)),
+      "INVALID_TOKEN",
+    );
+
+    // "null" as the header and "{}" as the claims
+    const nullHeader = await get("/me", "bnVsbA.e30.AAAA");
+    assertEquals(nullHeader.status, 401);
+    assertEquals((await nullHeader.json()).error.code, "INVALID_TOKEN");
+  });
+
+  await t.step("Refused tokens count against rate limits", async () => {
+    app.api("/account", {
+      rateLimit: { maxRequests: 2, windowMs: 60000 },
+      get: () => ({ ok: true }),
+      advanced: { security: { jwtValidation: true } },
+    });
+    const forged = await signJwt(claims, "another-secret", { expiresIn: 60 });
+
+    assertEquals((await get("/account", forged)).status, 401);
+    const refused = await get("/account", forged);
+    assertEquals(refused.status, 401);
+    assertEquals(refused.headers.get("RateLimit-Remaining"), "0");
+    assertEquals((await get("/account", forged)).status, 429);
+  });
+
+  await t.step("Expiry within the clock skew is tolerated", async () => {
+    const token = await signJwt(claims, secret, { expiresIn: -10 });
+    assertEquals((await get("/me", token)).status, 200);
+  });
+
+  await t.step("WebSocket upgrades require a valid token", async () => {
+    const missing = await get("/ws");
+    assertEquals(missing.status, 401);
+    assertEquals(missing.headers.get("WWW-Authenticate"), "Bearer");
+
+    const expired = await app.handle(
+      new Request(
+        `http://localhost/ws?access_token=${await signJwt(claims, secret, {
+          expiresIn: -120,
+        })}`,
+      ),
+    );
+    assertEquals(expired.status, 401);
+  });
+
+  await t.step("A failed JWKS fetch is retried", async () => {
+    const remote = new Weblisk(getTestConfig(TEST_PORT + 261, {
+      jwt: { jwksUrl: "https://auth.example.com/jwks.json" },
+    }));
+    remote.api("/me", {
+      get: () => ({ ok: true }),
+      advanced: { security: { jwtValidation: true } },
+    });
+    const token = await signJwt(claims, ecKeys.privateKey, {
+      algorithm: "ES256",
+      expiresIn: 60,
+    });
+    const call = () =>
+      remote.handle(
+        new Request("http://localhost/me", {
+          headers: { Authorization: `Bearer ${token}` },
+        }),
+      );
+
+    const realFetch = globalThis.fetch;
+    let fetches = 0;
+    globalThis.fetch = () =>
+      Promise.resolve(
+        ++fetches === 1
+          ? new Response("Unavailable", { status: 503 })
+          : Response.json({ keys: [publicKey] }),
+      );
+    try {
+      assertEquals((await call()).status, 401);
+      await new Promise((resolve) => setTimeout(resolve, 1100));
+      assertEquals((await call()).status, 200);
+      assertEquals(fetches, 2);
+    } finally {
+      globalThis.fetch = realFetch;
+    }
+  });
+});
+
+Deno.test("Weblisk Framework v1.0 - Route Access Rules", async (t) => {
+  const app = new Weblisk(getTestConfig(TEST_PORT + 270));
+  const users: Record<string, Principal> = {
+    ada: { id: "ada", roles: ["admin"] },
+    bob: { id: "bob", roles: ["editor"], team: "blue" },
+  };
+  app.setIdentityResolver((context) =>
+    users[context.request.headers.get("X-User") || ""] ?? null
+  );
+  const get = (path: string, user?: string) =>
+    app.handle(
+      new Request(`http://localhost${path}`, {
+        headers: user ? { "X-User": user } : {},
+      }),
+    );
+
+  app.auth("/login", { template: () => html`<h1>Sign in</h1>` });
+  app.admin("/admin", {
+    template: () => html`<h1>Admin</h1>`,
+    data: (context: RouteContext) => ({ user: context.principal?.id }),
+  });
+  app.api("/drafts", {
+    access: { roles: ["editor", "admin"] },
+    get: (context: RouteContext) => ({ user: context.principal?.id }),
+  });
+  app.api("/teams/:team", {
+    access: {
+      allow: (principal, context) => principal.team === context.params?.team,
+    },
+    get: () => ({ ok: true }),
+  });
+
+  await t.step("Admin pages redirect anonymous visitors to login", async () => {
+    const anonymous = await get("/admin?tab=users");
+    assertEquals(anonymous.status, 302);
+    assertEquals(
+      anonymous.headers.get("Location"),
+      "/login?next=%2Fadmin%3Ftab%3Dusers",
+    );
+    assertEquals((await get("/admin", "bob")).status, 403);
+    assertEquals((await get("/admin", "ada")).status, 200);
+    assertEquals((await get("/login")).status, 200);
+  });
+
+  await t.step("APIs answer 401 and 403 as JSON", async () => {
+    const anonymous = await get("/drafts");
+    assertEquals(anonymous.status, 401);
+    assertEquals(
+      (await anonymous.json()).error.code,
+      "AUTHENTICATION_REQUIRED",
+    );
+    assertEquals(await (await get("/drafts", "bob")).json(), { user: "bob" });
+
+    assertEquals((await get("/teams/blue", "bob")).status, 200);
+    const other = await get("/teams/red", "bob");
+    assertEquals(other.status, 403);
+    assertEquals((await other.json()).error.code, "FORBIDDEN");
+  });
+
+  await t.step("Denials pass through the global middleware", async () => {
+    const guarded = new Weblisk(getTestConfig(TEST_PORT + 271, {
+      security: { ...getTestConfig(0).security, securityHeadersEnabled: true },
+    }));
+    guarded.auth("/login", { template: () => html`<h1>Sign in</h1>` });
+    guarded.admin("/admin", { template: () => html`<h1>Admin</h1>` });
+    guarded.api("/drafts", { access: "authenticated", get: () => ({}) });
+
+    for (const path of ["/admin", "/drafts"]) {
+      const denied = await guarded.handle(
+        new Request(`http://localhost${path}`),
+      );
+      assertEquals(denied.status, path === "/admin" ? 302 : 401);
+      assertEquals(denied.headers.get("X-Frame-Options"), "DENY");
+    }
+  });
+
+  await t.step("WebSocket events see the upgrade request", async () => {
+    const live = new Weblisk(getTestConfig(TEST_PORT + 272));
+    // Browsers cannot set upgrade headers, so the user rides in the URL
+    live.setIdentityResolver((context) =>
+      users[context.url.searchParams.get("user") || ""] ?? null
+    );
+    live.route("/board", {
+      access: "authenticated",
+      template: () => html`<h1>Board</h1>`,
+      events: {
+        whoami: (_data, context) => ({ user: context?.principal?.id }),
+      },
+    });
+
+    const server = Deno.serve(
+      { port: TEST_PORT + 272, onListen: () => {} },
+      (request, info) => live.handle(request, info),
+    );
+    try {
+      const socket = new WebSocket(
+        `ws://localhost:${TEST_PORT + 272}/ws?user=ada`,
+      );
+      const result = new Promise<Record<string, unknown>>((resolve) => {
+        socket.onmessage = (event) => {
+          const message = JSON.parse(event.data);
+          if (message.type === "connection-established") {
+            socket.send(JSON.stringify({
+              type: "server-event",
+              component: "route",
+              event: "whoami",
+              payload: {},
+            }));
+          } else if (message.type === "event-result") {
+            resolve(message);
+          }
+        };
+      });
+      const message = await result;
+      const closed = new Promise((resolve) => socket.onclose = resolve);
+      socket.close();
+      await closed;
+      assertEquals(message.success, true);
+      assertEquals(message.result, { user: "ada" });
+    } finally {
+      await server.shutdown();
+    }
+  });
+});
+
+Deno.test("Weblisk Framework v1.0 - Webhooks", async (t) => {
+  const app = new Weblisk(getTestConfig(TEST_PORT + 280));
+  const secret = "whsec_test";
+  const received: WebhookEvent[] = [];
+  app.webhook("/hooks/orders", {
+    webhook: {
+      secrets: ["whsec_old", secret],
+      signaturePrefix: "sha256=",
+      timestampHeader: "X-Webhook-Timestamp",
+      handler: (event) => {
+        received.push(event);
+      },
+    },
+  });
+
+  const deliver = async (
+    body: string,
+    id: string,
+    options: { secret?: string; timestamp?: number } = {},
+  ) => {
+    const timestamp = options.timestamp ?? Math.floor(Date.now() / 1000);
+    const signature = await signWebhookPayload(
+      body,
+      options.secret ?? secret,
+      { timestamp },
+    );
+    return app.handle(
+      new Request("http://localhost/hooks/orders", {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+          "Idempotency-Key": id,
+          "X-Webhook-Signature": `sha256=${signature}`,
+          "X-Webhook-Timestamp": String(timestamp),
+        },
+        body,
+      }),
+    );
+  };
+
+  await t.step("Signed deliveries are acknowledged and processed", async () => {
+    const response = await deliver('{"order":42}', "evt_1");
+    assertEquals(response.status, 202);
+    assertEquals(await response.json(), { received: true, id: "evt_1" });
+
+    await app.webhooks.settle();
+    assertEquals(received.length, 1);
+    assertEquals(received[0].payload, { order: 42 });
+  });
+
+  await t.step("Repeated deliveries are not processed twice", async () => {
+    const response = await deliver('{"order":42}', "evt_1");
+    assertEquals(response.status, 200);
+    assertEquals((await response.json()).duplicate, true);
+    await app.webhooks.settle();
+    assertEquals(received.length, 1);
+  });
+
+  await t.step(
+    "Replays under a new idempotency key are duplicates",
+    async () => {
+      const timestamp = Math.floor(Date.now() / 1000);
+      const original = await deliver('{"order":7}', "evt_4", { timestamp });
+      assertEquals(original.status, 202);
+
+      const replayed = await deliver('{"order":7}', "evt_5", { timestamp });
+      assertEquals((await replayed.json()).duplicate, true);
+      await app.webhooks.settle();
+      assertEquals(received.length, 2);
+    },
+  );
+
+  await t.step("Bad signatures and stale timestamps are rejected", async () => {
+    const forged = await deliver("{}", "evt_2", { secret: "wrong" });
+    assertEquals(forged.status, 401);
+    assertEquals(
+      (await forged.json()).error.code,
+      "WEBHOOK_SIGNATURE_INVALID",
+    );
+
+    const replayed = await deliver("{}", "evt_3", {
+      timestamp: Math.floor(Date.now() / 1000) - 3600,
+    });
+    assertEquals(replayed.status, 401);
+    assertEquals(
+      (await replayed.json()).error.code,
+      "WEBHOOK_TIMESTAMP_INVALID",
+    );
+  });
+
+  await t.step("Delivery attempts are recorded", () => {
+    const statuses = app.webhooks.getDeliveries("/hooks/orders")
+      .map((delivery) => delivery.status);
+    assertEquals(statuses, [
+      "succeeded",
+      "duplicate",
+      "succeeded",
+      "duplicate",
+      "rejected",
+      "rejected",
+    ]);
+  });
+});
+
+Deno.test("Weblisk Framework v1.0 - Background Jobs", async (t) => {
+  const app = new Weblisk(getTestConfig(TEST_PORT + 290));
+  const session = crypto.randomUUID();
+  const request = (path: string, init: RequestInit = {}, id = session) =>
+    app.handle(
+      new Request(`http://localhost${path}`, {
+        ...init,
+        headers: { Cookie: `weblisk-session-id=${id}` },
+      }),
+    );
+  const updates: JobSummary[] = [];
+  app.jobs.onUpdate((job) => updates.push(job));
+
+  app.batch("/imports", {
+    job: {
+      name: "csv-import",
+      handler: async (data: { text: string }, job) => {
+        const rows = data.text.trim().split("\n");
+        for (const [index] of rows.entries()) {
+          await job.progress(((index + 1) / rows.length) * 100, "Importing");
+        }
+        return { rows: rows.length };
+      },
+    },
+  });
+
+  await t.step("Batch routes queue jobs and answer 202", async () => {
+    const response = await request("/imports", {
+      method: "POST",
+      body: "a,1\nb,2\nc,3",
+    });
+    assertEquals(response.status, 202);
+    const { id, statusUrl } = await response.json();
+    assertEquals(statusUrl, `/jobs/${id}`);
+    assertEquals(response.headers.get("Location"), statusUrl);
+
+    await app.jobs.settle();
+    const job = await (await request(statusUrl)).json();
+    assertEquals(job.status, "completed");
+    assertEquals(job.result, { rows: 3 });
+    assertEquals(job.data, undefined);
+
+    assertEquals(
+      (await request(statusUrl, {}, crypto.randomUUID())).status,
+      404,
+    );
+    assertEquals(
+      (await (await request("/jobs")).json()).jobs.map((j: JobSummary) => j.id),
+      [id],
+    );
+  });
+
+  await t.step("Status URLs work with trailing slashes", async () => {
+    const slashed = new Weblisk(getTestConfig(TEST_PORT + 291, {
+      routing: { trailingSlash: "always" },
+    }));
+    slashed.jobs.define("noop", { handler: () => "done" });
+    const job = await slashed.jobs.enqueue("noop", {}, { sessionId: session });
+    await slashed.jobs.settle();
+    const get = (path: string) =>
+      slashed.handle(
+        new Request(`http://localhost${path}`, {
+          headers: { Cookie: `weblisk-session-id=${session}` },
+        }),
+      );
+
+    const redirect = await get(`/jobs/${job.id}`);
+    assertEquals(redirect.status, 308);
+    const status = await get(redirect.headers.get("Location")!);
+    assertEquals((await status.json()).status, "completed");
+    assertEquals((await (await get("/jobs/")).json()).jobs.length, 1);
+  });
+
+  await t.step("Progress updates carry the submitting session", () => {
+    const progress = updates.filter((job) => job.status === "running")
+      .map((job) => Math.round(job.progress));
+    assertEquals(progress, [0, 33, 67, 100]);
+    assertEquals(updates.every((job) => job.sessionId === session), true);
+  });
+
+  await t.step("Failed jobs are retried with backoff", async () => {
+    assertEquals(backoffDelay("exponential", 100, 3), 400);
+    assertEquals(backoffDelay("linear", 100, 3, 250), 250);
+
+    let calls = 0;
+    app.jobs.define("flaky", {
+      retries: 2,
+      retryDelay: 5,
+      handler: () => {
+        if (++calls < 3) throw new Error(`Attempt ${calls} failed`);
+        return "done";
+      },
+    });
+    app.jobs.define("broken", {
+      retries: 1,
+      retryDelay: 5,
+      backoffStrategy: "linear",
+      handler: () => {
+        throw new Error("Always fails");
+      },
+    });
+
+    const flaky = await app.jobs.enqueue("flaky", {});
+    const broken = await app.jobs.enqueue("broken", {}, { public: true });
+    await app.jobs.settle();
+
+    // Jobs without a session are only served when enqueued as public
+    assertEquals((await request(`/jobs/${flaky.id}`)).status, 404);
+    assertEquals((await request(`/jobs/${broken.id}`)).status, 200);
+
+    const flakyJob = await app.jobs.get(flaky.id);
+    assertEquals(flakyJob?.status, "completed");
+    assertEquals(flakyJob?.attempts, 3);
+    const brokenJob = await app.jobs.get(broken.id);
+    assertEquals(brokenJob?.status, "failed");
+    assertEquals(brokenJob?.attempts, 2);
+    assertEquals(brokenJob?.error, "Always fails");
+  });
+
+  await t.step("Queued jobs can be cancelled", async () => {
+    const job = await app.jobs.enqueue("csv-import", { text: "x" }, {
+      sessionId: session,
+      delay: 60_000,
+    });
+    const cancelled = await request(`/jobs/${job.id}`, { method: "DELETE" });
+    assertEquals((await cancelled.json()).status, "cancelled");
+
+    const again = await request(`/jobs/${job.id}`, { method: "DELETE" });
+    assertEquals(again.status, 409);
+    assertEquals((await again.json()).error.code, "JOB_FINISHED");
+    await app.jobs.settle();
+  });
+});
+
 console.log("Weblisk Framework v1.0 Modular Test Suite Completed!");